@@ -1,86 +1,167 @@
-import {KeyValueStorage, platform} from '@keeper/secrets-manager-core';
-import * as AWS from "aws-sdk";
-import {GetParameterRequest, PutParameterRequest, DeleteParametersRequest} from "aws-sdk/clients/ssm";
+import {jsonDocumentStorage, KeeperStorageError, KeyValueStorage, platform} from '@keeper-security/secrets-manager-core';
+import {DeleteParameterCommand, GetParameterCommand, PutParameterCommand, SSMClient} from '@aws-sdk/client-ssm';
+import {
+    CreateSecretCommand,
+    DeleteSecretCommand,
+    GetSecretValueCommand,
+    PutSecretValueCommand,
+    SecretsManagerClient
+} from '@aws-sdk/client-secrets-manager';
 
-export const createAwsKeyValueStorage = (): KeyValueStorage => {
+// Any AWS SDK v3 client, a local fake can be passed instead
+export type AwsClient = {
+    send(command: any): Promise<any>
+}
 
-    const getValue = (key: string): Promise<string | undefined> => {
-        const ssm = new AWS.SSM();
-        const rq: GetParameterRequest = {
-            Name: key,
-            WithDecryption: true
-        }
-        return new Promise<string | undefined>(((resolve, reject) => {
-            ssm.getParameter(rq, (err, data) => {
-                if (err) {
-                    resolve(undefined)
-                } else {
-                    resolve(data.Parameter?.Value)
-                }
-            })
-        }))
-    }
+export type AwsKeyValueStorageOptions = {
+    backend?: 'ssm' | 'secretsManager'  // SSM Parameter Store by default
+    prefix?: string                     // prepended to the parameter names, ex. /keeper/my-app/
+    parameterName?: string              // keep the whole configuration as JSON in this single parameter or secret
+    kmsKeyId?: string                   // KMS key used to encrypt the values, the AWS managed key by default
+    client?: AwsClient                  // SSMClient or SecretsManagerClient matching the backend, created with the default settings if not set
+}
+
+// reads, writes and deletes a single parameter or secret
+type AwsBackend = {
+    get(name: string): Promise<string | undefined>
+    put(name: string, value: string): Promise<void>
+    remove(name: string): Promise<void>
+}
+
+const storageError = (operation: string, name: string, e: Error | any): KeeperStorageError =>
+    new KeeperStorageError(`Unable to ${operation} ${name}: ${e.name}, ${e.message}`, {
+        cause: e,
+        statusCode: e.$metadata?.httpStatusCode,
+        resultCode: e.name
+    })
 
-    const saveValue = (key: string, value: any): Promise<void> => {
-        const ssm = new AWS.SSM();
-        const rq: PutParameterRequest = {
-            Name: key,
-            Value: value,
-            Type: 'SecureString',
-            Overwrite: true
+const ssmBackend = (client: AwsClient, kmsKeyId?: string): AwsBackend => ({
+    get: async name => {
+        try {
+            const response = await client.send(new GetParameterCommand({Name: name, WithDecryption: true}))
+            return response.Parameter?.Value
+        } catch (e: Error | any) {
+            if (e.name === 'ParameterNotFound') {
+                return undefined
+            }
+            throw storageError('read', name, e)
+        }
+    },
+    put: async (name, value) => {
+        try {
+            await client.send(new PutParameterCommand({
+                Name: name,
+                Value: value,
+                Type: 'SecureString',
+                KeyId: kmsKeyId,
+                Overwrite: true
+            }))
+        } catch (e: Error | any) {
+            throw storageError('save', name, e)
+        }
+    },
+    remove: async name => {
+        try {
+            await client.send(new DeleteParameterCommand({Name: name}))
+        } catch (e: Error | any) {
+            if (e.name !== 'ParameterNotFound') {
+                throw storageError('delete', name, e)
+            }
         }
-        return new Promise<void>(((resolve, reject) => {
-            ssm.putParameter(rq, (err) => {
-                if (err) {
-                    reject(err)
-                } else {
-                    resolve()
-                }
-            })
-        }))
     }
+})
 
-    const clearValue = (key: string): Promise<void> => {
-        const ssm = new AWS.SSM();
-        const rq: DeleteParametersRequest = {
-            Names: [key],
+const secretsManagerBackend = (client: AwsClient, kmsKeyId?: string): AwsBackend => ({
+    get: async name => {
+        try {
+            const response = await client.send(new GetSecretValueCommand({SecretId: name}))
+            return response.SecretString
+        } catch (e: Error | any) {
+            if (e.name === 'ResourceNotFoundException') {
+                return undefined
+            }
+            throw storageError('read', name, e)
         }
-        return new Promise<void>(((resolve, reject) => {
-            ssm.deleteParameters(rq, (err) => {
-                if (err) {
-                    reject(err)
-                } else {
-                    resolve()
+    },
+    put: async (name, value) => {
+        try {
+            try {
+                await client.send(new PutSecretValueCommand({SecretId: name, SecretString: value}))
+            } catch (e: Error | any) {
+                if (e.name !== 'ResourceNotFoundException') {
+                    throw e
                 }
-            })
-        }))
+                await client.send(new CreateSecretCommand({Name: name, SecretString: value, KmsKeyId: kmsKeyId}))
+            }
+        } catch (e: Error | any) {
+            throw storageError('save', name, e)
+        }
+    },
+    remove: async name => {
+        try {
+            // without the force flag the name stays reserved during the recovery window and can't be saved again
+            await client.send(new DeleteSecretCommand({SecretId: name, ForceDeleteWithoutRecovery: true}))
+        } catch (e: Error | any) {
+            if (e.name !== 'ResourceNotFoundException') {
+                throw storageError('delete', name, e)
+            }
+        }
     }
+})
 
-    return {
-        getString: key => getValue(key),
-        saveString: async (key, value) => {
-            await saveValue(key, value)
-            return Promise.resolve()
-        },
-        getBytes: async key => {
-            const bytesString = await getValue(key)
-            if (bytesString) {
-                return Promise.resolve(platform.base64ToBytes(bytesString))
-            } else {
-                return Promise.resolve(undefined)
-            }
-        },
-        saveBytes: async (key, value) => {
-            const bytesString = platform.bytesToBase64(value)
-            await saveValue(key, bytesString)
-            return Promise.resolve()
-        },
-        delete: async (key) => {
-            await clearValue(key)
-            return Promise.resolve()
+// one parameter per key
+const parameterStorage = (backend: AwsBackend, prefix: string): KeyValueStorage => ({
+    getString: key => backend.get(prefix + key),
+    saveString: (key, value) => backend.put(prefix + key, value),
+    getBytes: async key => {
+        const bytesString = await backend.get(prefix + key)
+        return bytesString ? platform.base64ToBytes(bytesString) : undefined
+    },
+    saveBytes: (key, value) => backend.put(prefix + key, platform.bytesToBase64(value)),
+    delete: key => backend.remove(prefix + key)
+})
+
+// The whole configuration in one parameter, in the same JSON format as the local config file.
+// The parameter is read once, it is read again before each change so the changes made elsewhere are not lost.
+// Changes made within batch() are written at once.
+const jsonParameterStorage = (backend: AwsBackend, name: string): KeyValueStorage => jsonDocumentStorage({
+    read: async () => {
+        const value = await backend.get(name)
+        if (!value) {
+            return {}
+        }
+        try {
+            return JSON.parse(value)
+        } catch (e) {
+            throw new KeeperStorageError(`${name} is not a valid JSON configuration`, {cause: e})
         }
+    },
+    write: data => backend.put(name, JSON.stringify(data))
+})
+
+// Without options every key is kept as a separate SSM parameter named after the key, as in the previous versions.
+// Missing parameters are read as undefined, other errors (ex. access denied) are thrown as KeeperStorageError.
+export const createAwsKeyValueStorage = (options: AwsKeyValueStorageOptions = {}): KeyValueStorage => {
+    let backend: AwsBackend
+    if (options.backend === 'secretsManager') {
+        backend = secretsManagerBackend(options.client || new SecretsManagerClient({}), options.kmsKeyId)
+    } else {
+        backend = ssmBackend(options.client || new SSMClient({}), options.kmsKeyId)
     }
+    const prefix = options.prefix || ''
+    return options.parameterName
+        ? jsonParameterStorage(backend, prefix + options.parameterName)
+        : parameterStorage(backend, prefix)
 }
 
-export const awsKeyValueStorage = createAwsKeyValueStorage()
+// SSM parameter per key, the client is created on the first use so the package can be imported without the AWS settings
+let defaultStorage: KeyValueStorage | undefined
+const getDefaultStorage = (): KeyValueStorage => defaultStorage || (defaultStorage = createAwsKeyValueStorage())
 
+export const awsKeyValueStorage: KeyValueStorage = {
+    getString: key => getDefaultStorage().getString(key),
+    saveString: (key, value) => getDefaultStorage().saveString(key, value),
+    getBytes: key => getDefaultStorage().getBytes(key),
+    saveBytes: (key, value) => getDefaultStorage().saveBytes(key, value),
+    delete: key => getDefaultStorage().delete(key)
+}
@@ -0,0 +1,121 @@
+import {KeeperStorageError} from '@keeper-security/secrets-manager-core'
+import {createAwsKeyValueStorage} from '../src'
+
+const awsError = (name: string, httpStatusCode: number, message: string) =>
+    Object.assign(new Error(message), {name, $metadata: {httpStatusCode}})
+
+// SSM Parameter Store and Secrets Manager, the values by name
+const fakeClient = (values: Record<string, string> = {}) => {
+    const commands: { name: string, input: any }[] = []
+    const client = {
+        failure: undefined as Error | undefined,
+        send: async (command: any) => {
+            const input = command.input
+            commands.push({name: command.constructor.name, input})
+            if (client.failure) {
+                throw client.failure
+            }
+            switch (command.constructor.name) {
+                case 'GetParameterCommand':
+                    if (!(input.Name in values)) {
+                        throw awsError('ParameterNotFound', 400, '')
+                    }
+                    return {Parameter: {Name: input.Name, Value: values[input.Name]}}
+                case 'PutParameterCommand':
+                    values[input.Name] = input.Value
+                    return {Version: 1}
+                case 'DeleteParameterCommand':
+                    if (!(input.Name in values)) {
+                        throw awsError('ParameterNotFound', 400, '')
+                    }
+                    delete values[input.Name]
+                    return {}
+                case 'GetSecretValueCommand':
+                case 'PutSecretValueCommand':
+                case 'DeleteSecretCommand':
+                    if (!(input.SecretId in values)) {
+                        throw awsError('ResourceNotFoundException', 400, 'Secrets Manager can\'t find the specified secret.')
+                    }
+                    if (command.constructor.name === 'DeleteSecretCommand') {
+                        delete values[input.SecretId]
+                    } else if (command.constructor.name === 'PutSecretValueCommand') {
+                        values[input.SecretId] = input.SecretString
+                    }
+                    return {SecretString: values[input.SecretId]}
+                case 'CreateSecretCommand':
+                    values[input.Name] = input.SecretString
+                    return {}
+            }
+            throw new Error(`Unexpected command ${command.constructor.name}`)
+        }
+    }
+    return {client, values, commands}
+}
+
+test('Keeps every key in a parameter under the prefix', async () => {
+    const {client, values, commands} = fakeClient()
+    const storage = createAwsKeyValueStorage({prefix: '/keeper/my-app/', kmsKeyId: 'alias/ksm', client})
+    expect(await storage.getString('clientId')).toBeUndefined()
+    await storage.saveString('clientId', 'CLIENT_ID')
+    await storage.saveBytes('appKey', new Uint8Array([1, 2, 3]))
+    expect(values).toEqual({'/keeper/my-app/clientId': 'CLIENT_ID', '/keeper/my-app/appKey': 'AQID'})
+    expect(commands[1]).toEqual({name: 'PutParameterCommand', input: {
+        Name: '/keeper/my-app/clientId', Value: 'CLIENT_ID', Type: 'SecureString', KeyId: 'alias/ksm', Overwrite: true
+    }})
+    expect(await storage.getBytes('appKey')).toEqual(new Uint8Array([1, 2, 3]))
+    expect(commands[3].input).toEqual({Name: '/keeper/my-app/appKey', WithDecryption: true})
+
+    await storage.delete('clientId')
+    await storage.delete('privateKey')
+    expect(values).toEqual({'/keeper/my-app/appKey': 'AQID'})
+})
+
+test('Reports the errors other than a missing parameter', async () => {
+    const {client} = fakeClient()
+    client.failure = awsError('AccessDeniedException', 400,
+        'User: arn:aws:iam::123456789012:user/ksm is not authorized to perform: ssm:GetParameter')
+    const storage = createAwsKeyValueStorage({prefix: '/keeper/', client})
+    const error = await storage.getString('clientId').catch(e => e)
+    expect(error).toBeInstanceOf(KeeperStorageError)
+    expect(error.message).toBe('Unable to read /keeper/clientId: AccessDeniedException, ' +
+        'User: arn:aws:iam::123456789012:user/ksm is not authorized to perform: ssm:GetParameter')
+    expect(error.resultCode).toBe('AccessDeniedException')
+    expect(error.statusCode).toBe(400)
+    await expect(storage.saveString('clientId', 'CLIENT_ID')).rejects.toBeInstanceOf(KeeperStorageError)
+    await expect(storage.delete('clientId')).rejects.toBeInstanceOf(KeeperStorageError)
+})
+
+test('Keeps the whole configuration in a single parameter', async () => {
+    const {client, values, commands} = fakeClient({'/keeper/config': JSON.stringify({hostname: 'keepersecurity.com'})})
+    const storage = createAwsKeyValueStorage({prefix: '/keeper/', parameterName: 'config', client})
+    expect(await storage.getString('hostname')).toBe('keepersecurity.com')
+    expect(await storage.getString('clientId')).toBeUndefined()
+    expect(commands).toHaveLength(1)
+
+    await storage.batch!(async () => {
+        await storage.saveString('clientId', 'CLIENT_ID')
+        await storage.saveBytes('appKey', new Uint8Array([1, 2, 3]))
+    })
+    expect(commands.map(x => x.name)).toEqual(['GetParameterCommand', 'GetParameterCommand', 'PutParameterCommand'])
+    expect(JSON.parse(values['/keeper/config'])).toEqual({hostname: 'keepersecurity.com', clientId: 'CLIENT_ID', appKey: 'AQID'})
+
+    values['/keeper/config'] = 'not a configuration'
+    await expect(storage.delete('clientId')).rejects.toThrow('/keeper/config is not a valid JSON configuration')
+    expect(values['/keeper/config']).toBe('not a configuration')
+})
+
+test('Keeps the values in Secrets Manager', async () => {
+    const {client, values, commands} = fakeClient()
+    const storage = createAwsKeyValueStorage({backend: 'secretsManager', prefix: 'keeper/', kmsKeyId: 'alias/ksm', client})
+    expect(await storage.getString('clientId')).toBeUndefined()
+    await storage.saveString('clientId', 'CLIENT_ID')
+    await storage.saveString('clientId', 'NEW_CLIENT_ID')
+    expect(values).toEqual({'keeper/clientId': 'NEW_CLIENT_ID'})
+    expect(commands.map(x => x.name)).toEqual(['GetSecretValueCommand', 'PutSecretValueCommand', 'CreateSecretCommand', 'PutSecretValueCommand'])
+    expect(commands[2].input).toEqual({Name: 'keeper/clientId', SecretString: 'CLIENT_ID', KmsKeyId: 'alias/ksm'})
+
+    await storage.delete('clientId')
+    await storage.delete('clientId')
+    expect(commands[4].input).toEqual({SecretId: 'keeper/clientId', ForceDeleteWithoutRecovery: true})
+    expect(values).toEqual({})
+})
@@ -0,0 +1,199 @@
+import {KeeperStorageError, KeeperTimeoutError, KeyValueStorage, platform} from '@keeper-security/secrets-manager-core';
+import {createHash} from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+
+// Compatible with TokenCredential from @azure/identity, ex. new DefaultAzureCredential()
+export type AzureTokenCredential = {
+    getToken(scopes: string | string[]): Promise<{ token: string, expiresOnTimestamp?: number } | null>
+}
+
+export type AzureKeyVaultStorageOptions = {
+    vaultUrl: string                // https://<vault name>.vault.azure.net
+    credential: AzureTokenCredential
+    secretPrefix?: string           // prepended to the secret names, to keep several configurations in one vault
+    purgeOnDelete?: boolean         // purge deleted secrets when the vault has soft-delete enabled (default true)
+    apiVersion?: string
+    requestTimeout?: number         // ms to wait for a response of the vault (default 30000)
+    recoveryTimeout?: number        // ms to wait for a deleted secret to be recovered before it is saved again (default 30000)
+    purgeTimeout?: number           // ms to keep retrying the purge of a deleted secret (default 10000)
+}
+
+type VaultResponse = {
+    statusCode: number
+    body: any
+}
+
+const KEY_VAULT_SCOPE = 'https://vault.azure.net/.default'
+const TOKEN_REFRESH_MARGIN = 2 * 60 * 1000
+const MAX_SECRET_NAME_LENGTH = 127
+const POLL_INTERVAL = 1000
+
+// Secret names may only contain letters, digits and dashes.
+// Other characters of the prefix and the key (and the dash itself) are escaped as -<hex code>-,
+// so different keys never share a secret. Names that are still too long are shortened with a hash suffix.
+export const sanitizeSecretName = (key: string, prefix: string = ''): string => {
+    const escaped = (prefix + key).replace(/[^0-9a-zA-Z]/g, ch => `-${ch.charCodeAt(0).toString(16)}-`)
+    if (escaped.length <= MAX_SECRET_NAME_LENGTH) {
+        return escaped
+    }
+    const hash = createHash('sha256').update(escaped).digest('hex').slice(0, 16)
+    return `${escaped.slice(0, MAX_SECRET_NAME_LENGTH - hash.length - 1)}-${hash}`
+}
+
+export const createAzureKeyValueStorage = (options: AzureKeyVaultStorageOptions): KeyValueStorage => {
+    const vaultUrl = options.vaultUrl.replace(/\/+$/, '')
+    const apiVersion = options.apiVersion || '7.4'
+    const purgeOnDelete = options.purgeOnDelete ?? true
+    const requestTimeout = options.requestTimeout ?? 30000
+    const recoveryTimeout = options.recoveryTimeout ?? 30000
+    const purgeTimeout = options.purgeTimeout ?? 10000
+
+    // the token is reused until shortly before it expires, tokens without the expiration are requested every time
+    let accessToken: { token: string, expiresOnTimestamp?: number } | undefined
+    const getAccessToken = async (refresh: boolean): Promise<string> => {
+        if (refresh || !accessToken || (accessToken.expiresOnTimestamp || 0) - TOKEN_REFRESH_MARGIN <= Date.now()) {
+            const token = await options.credential.getToken(KEY_VAULT_SCOPE)
+            if (!token) {
+                throw new KeeperStorageError('Unable to get an access token for Azure Key Vault')
+            }
+            accessToken = token
+        }
+        return accessToken.token
+    }
+
+    const send = (method: string, path: string, token: string, body?: any): Promise<VaultResponse> => {
+        const url = new URL(`${vaultUrl}${path}?api-version=${apiVersion}`)
+        const data = body ? JSON.stringify(body) : undefined
+        return new Promise<VaultResponse>((resolve, reject) => {
+            const rq = (url.protocol === 'http:' ? http : https).request(url, {
+                method: method,
+                headers: {
+                    Authorization: `Bearer ${token}`,
+                    'Content-Type': 'application/json',
+                    ...(data ? {'Content-Length': Buffer.byteLength(data)} : {})
+                }
+            }, res => {
+                const chunks: Buffer[] = []
+                res.on('data', chunk => chunks.push(chunk))
+                res.on('error', reject)
+                res.on('end', () => {
+                    clearTimeout(timer)
+                    const text = Buffer.concat(chunks).toString()
+                    let responseBody: any
+                    try {
+                        responseBody = text ? JSON.parse(text) : undefined
+                    } catch {
+                        responseBody = text
+                    }
+                    resolve({statusCode: res.statusCode!, body: responseBody})
+                })
+            })
+            // deadline for the whole request, unlike the socket idle timeout a slowly sent response does not extend it
+            const timer = setTimeout(() => {
+                rq.destroy(new KeeperTimeoutError(`Azure Key Vault ${method} ${url.pathname} timed out after ${requestTimeout} ms`))
+            }, requestTimeout)
+            rq.on('error', e => {
+                clearTimeout(timer)
+                reject(e)
+            })
+            if (data) {
+                rq.write(data)
+            }
+            rq.end()
+        })
+    }
+
+    // a rejected token (ex. revoked before it expired) is refreshed and the request is sent once more
+    const request = async (method: string, path: string, body?: any): Promise<VaultResponse> => {
+        const response = await send(method, path, await getAccessToken(false), body)
+        return response.statusCode === 401 ? send(method, path, await getAccessToken(true), body) : response
+    }
+
+    const vaultError = (operation: string, name: string, response: VaultResponse): KeeperStorageError => {
+        const message = response.body?.error?.message || `HTTP ${response.statusCode}`
+        return new KeeperStorageError(`Azure Key Vault ${operation} of ${name} failed: ${message}`, {
+            statusCode: response.statusCode,
+            resultCode: response.body?.error?.code
+        })
+    }
+
+    const secretPath = (key: string) => `/secrets/${sanitizeSecretName(key, options.secretPrefix)}`
+
+    const getValue = async (key: string): Promise<string | undefined> => {
+        const response = await request('GET', secretPath(key))
+        if (response.statusCode === 404) {
+            return undefined
+        }
+        if (response.statusCode !== 200) {
+            throw vaultError('read', key, response)
+        }
+        return response.body?.value
+    }
+
+    // a secret deleted in a soft-delete enabled vault keeps its name until purged,
+    // if it wasn't purged it is recovered before it can be set again
+    const recoverDeleted = async (key: string) => {
+        const name = sanitizeSecretName(key, options.secretPrefix)
+        const response = await request('POST', `/deletedsecrets/${name}/recover`)
+        if (response.statusCode !== 200) {
+            throw vaultError('recovery', key, response)
+        }
+        for (let attempt = 0; attempt < Math.ceil(recoveryTimeout / POLL_INTERVAL); attempt++) {
+            if ((await request('GET', secretPath(key))).statusCode !== 404) {
+                return
+            }
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL))
+        }
+        throw new KeeperStorageError(`Azure Key Vault recovery of ${key} did not complete in ${recoveryTimeout} ms`)
+    }
+
+    const saveValue = async (key: string, value: string): Promise<void> => {
+        let response = await request('PUT', secretPath(key), {value: value})
+        if (response.statusCode === 409 && response.body?.error?.innererror?.code === 'ObjectIsDeletedButRecoverable') {
+            await recoverDeleted(key)
+            response = await request('PUT', secretPath(key), {value: value})
+        }
+        if (response.statusCode !== 200) {
+            throw vaultError('update', key, response)
+        }
+    }
+
+    const clearValue = async (key: string): Promise<void> => {
+        const response = await request('DELETE', secretPath(key))
+        if (response.statusCode === 404) {
+            return
+        }
+        if (response.statusCode !== 200) {
+            throw vaultError('delete', key, response)
+        }
+        if (purgeOnDelete && response.body?.recoveryId) {
+            // purge is allowed only once the deletion completes and requires the purge permission, failures are not fatal
+            const name = sanitizeSecretName(key, options.secretPrefix)
+            for (let attempt = 0; attempt < Math.ceil(purgeTimeout / POLL_INTERVAL); attempt++) {
+                const purgeResponse = await request('DELETE', `/deletedsecrets/${name}`)
+                if (purgeResponse.statusCode !== 409) {
+                    break
+                }
+                await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL))
+            }
+        }
+    }
+
+    return {
+        getString: key => getValue(key),
+        saveString: async (key, value) => {
+            await saveValue(key, value)
+        },
+        getBytes: async key => {
+            const bytesString = await getValue(key)
+            return bytesString ? platform.base64ToBytes(bytesString) : undefined
+        },
+        saveBytes: async (key, value) => {
+            await saveValue(key, platform.bytesToBase64(value))
+        },
+        delete: async (key) => {
+            await clearValue(key)
+        }
+    }
+}
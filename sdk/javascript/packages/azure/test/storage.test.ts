@@ -0,0 +1,196 @@
+import {KeeperStorageError, KeeperTimeoutError, KeyValueStorage} from '@keeper-security/secrets-manager-core'
+import {createAzureKeyValueStorage, sanitizeSecretName} from '../src'
+import * as http from 'http'
+import {AddressInfo} from 'net'
+
+// Key Vault secrets REST API, enough of it for the storage
+type VaultStub = {
+    secrets: Record<string, string>
+    deleted: Record<string, string>
+    validTokens: string[]
+    requests: string[]
+    stalled?: boolean               // requests are never answered
+    trickling?: boolean             // responses are sent a byte at a time and never end
+    slowRecovery?: boolean          // recovery is accepted but never completes
+}
+
+let vault: VaultStub
+let server: http.Server
+let vaultUrl: string
+
+const respond = (res: http.ServerResponse, statusCode: number, body?: any) => {
+    res.writeHead(statusCode, {'Content-Type': 'application/json'})
+    res.end(body ? JSON.stringify(body) : undefined)
+}
+
+const handle = (req: http.IncomingMessage, body: string, res: http.ServerResponse) => {
+    const url = new URL(req.url!, vaultUrl)
+    vault.requests.push(`${req.method} ${url.pathname}`)
+    if (vault.stalled) {
+        return
+    }
+    if (vault.trickling) {
+        res.writeHead(200, {'Content-Type': 'application/json'})
+        const sending = setInterval(() => res.write(' '), 10)
+        res.on('close', () => clearInterval(sending))
+        return
+    }
+    if (!vault.validTokens.includes((req.headers.authorization || '').replace('Bearer ', ''))) {
+        return respond(res, 401, {error: {code: 'Unauthorized', message: 'AKV10032: Invalid issuer.'}})
+    }
+    const [, collection, name, action] = url.pathname.split('/')
+    const notFound = () => respond(res, 404, {error: {code: 'SecretNotFound', message: `A secret with (name/id) ${name} was not found in this key vault.`}})
+    if (collection === 'secrets') {
+        if (req.method === 'GET') {
+            return name in vault.secrets ? respond(res, 200, {value: vault.secrets[name]}) : notFound()
+        }
+        if (req.method === 'PUT') {
+            if (name in vault.deleted) {
+                return respond(res, 409, {error: {code: 'Conflict', message: `Secret ${name} is currently in a deleted but recoverable state.`,
+                    innererror: {code: 'ObjectIsDeletedButRecoverable'}}})
+            }
+            vault.secrets[name] = JSON.parse(body).value
+            return respond(res, 200, {value: vault.secrets[name]})
+        }
+        if (req.method === 'DELETE') {
+            if (!(name in vault.secrets)) {
+                return notFound()
+            }
+            vault.deleted[name] = vault.secrets[name]
+            delete vault.secrets[name]
+            return respond(res, 200, {recoveryId: `${vaultUrl}/deletedsecrets/${name}`})
+        }
+    }
+    if (collection === 'deletedsecrets' && name in vault.deleted) {
+        if (req.method === 'POST' && action === 'recover') {
+            if (vault.slowRecovery) {
+                return respond(res, 200, {})
+            }
+            vault.secrets[name] = vault.deleted[name]
+            delete vault.deleted[name]
+            return respond(res, 200, {})
+        }
+        if (req.method === 'DELETE') {
+            delete vault.deleted[name]
+            return respond(res, 204)
+        }
+    }
+    notFound()
+}
+
+const credential = (tokens: { token: string, expiresOnTimestamp?: number }[]) => ({
+    getToken: jest.fn(async () => tokens.shift() || null)
+})
+
+const prepareStorage = (purgeOnDelete = true): KeyValueStorage => createAzureKeyValueStorage({
+    vaultUrl,
+    credential: credential([{token: 'TOKEN', expiresOnTimestamp: Date.now() + 3600 * 1000}]),
+    secretPrefix: 'ksm.dev_',
+    purgeOnDelete
+})
+
+beforeEach(async () => {
+    vault = {secrets: {}, deleted: {}, validTokens: ['TOKEN'], requests: []}
+    server = http.createServer((req, res) => {
+        let body = ''
+        req.on('data', chunk => body += chunk)
+        req.on('end', () => handle(req, body, res))
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    vaultUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterEach(async () => {
+    await new Promise(resolve => server.close(resolve))
+})
+
+test('Escapes the prefix and the key into a valid secret name', () => {
+    expect(sanitizeSecretName('appKey', 'ksm-')).toBe('ksm-2d-appKey')
+    expect(sanitizeSecretName('profiles/dev.1/clientId', 'ksm.dev_')).toBe('ksm-2e-dev-5f-profiles-2f-dev-2e-1-2f-clientId')
+    const longName = sanitizeSecretName('a'.repeat(200))
+    expect(longName).toMatch(/^[0-9a-zA-Z-]{127}$/)
+    expect(longName).not.toBe(sanitizeSecretName('a'.repeat(201)))
+})
+
+test('Gets, saves and deletes the values', async () => {
+    const storage = prepareStorage()
+    expect(await storage.getString('hostname')).toBeUndefined()
+    await storage.saveString('hostname', 'keepersecurity.com')
+    await storage.saveBytes('appKey', new Uint8Array([1, 2, 3]))
+    expect(await storage.getString('hostname')).toBe('keepersecurity.com')
+    expect(await storage.getBytes('appKey')).toEqual(new Uint8Array([1, 2, 3]))
+    expect(Object.keys(vault.secrets).sort()).toEqual(['ksm-2e-dev-5f-appKey', 'ksm-2e-dev-5f-hostname'])
+
+    await storage.delete('hostname')
+    await storage.delete('clientId')
+    expect(await storage.getString('hostname')).toBeUndefined()
+    expect(vault.secrets).toEqual({'ksm-2e-dev-5f-appKey': 'AQID'})
+    expect(vault.deleted).toEqual({})
+})
+
+test('Recovers a deleted secret before saving it again', async () => {
+    const storage = prepareStorage(false)
+    await storage.saveString('clientId', 'CLIENT_ID')
+    await storage.delete('clientId')
+    expect(vault.deleted).toEqual({'ksm-2e-dev-5f-clientId': 'CLIENT_ID'})
+
+    vault.requests = []
+    await storage.saveString('clientId', 'NEW_CLIENT_ID')
+    expect(vault.secrets).toEqual({'ksm-2e-dev-5f-clientId': 'NEW_CLIENT_ID'})
+    expect(vault.requests).toEqual([
+        'PUT /secrets/ksm-2e-dev-5f-clientId',
+        'POST /deletedsecrets/ksm-2e-dev-5f-clientId/recover',
+        'GET /secrets/ksm-2e-dev-5f-clientId',
+        'PUT /secrets/ksm-2e-dev-5f-clientId'
+    ])
+})
+
+test('Reports the vault errors', async () => {
+    const storage = createAzureKeyValueStorage({vaultUrl, credential: credential([{token: 'REVOKED'}, {token: 'REVOKED'}])})
+    const error = await storage.getString('hostname').catch(e => e)
+    expect(error).toBeInstanceOf(KeeperStorageError)
+    expect(error.message).toBe('Azure Key Vault read of hostname failed: AKV10032: Invalid issuer.')
+    expect(error.statusCode).toBe(401)
+    expect(error.resultCode).toBe('Unauthorized')
+})
+
+test('Refreshes the access token', async () => {
+    const tokens = credential([
+        {token: 'TOKEN', expiresOnTimestamp: Date.now() + 3600 * 1000},
+        {token: 'EXPIRING', expiresOnTimestamp: Date.now() + 60 * 1000},
+        {token: 'NEW_TOKEN', expiresOnTimestamp: Date.now() + 3600 * 1000}
+    ])
+    const storage = createAzureKeyValueStorage({vaultUrl, credential: tokens})
+    await storage.saveString('hostname', 'keepersecurity.com')
+    await storage.getString('hostname')
+    expect(tokens.getToken).toHaveBeenCalledTimes(1)
+
+    // the token is revoked before it expires, the next one expires too soon to be reused
+    vault.validTokens = ['EXPIRING', 'NEW_TOKEN']
+    expect(await storage.getString('hostname')).toBe('keepersecurity.com')
+    expect(await storage.getString('hostname')).toBe('keepersecurity.com')
+    expect(tokens.getToken).toHaveBeenCalledTimes(3)
+    expect(vault.requests).toHaveLength(5)
+})
+
+test('Times out the requests and the recovery', async () => {
+    const storage = createAzureKeyValueStorage({
+        vaultUrl,
+        credential: credential([{token: 'TOKEN', expiresOnTimestamp: Date.now() + 3600 * 1000}]),
+        purgeOnDelete: false,
+        requestTimeout: 100,
+        recoveryTimeout: 1
+    })
+    await storage.saveString('clientId', 'CLIENT_ID')
+    await storage.delete('clientId')
+    vault.slowRecovery = true
+    await expect(storage.saveString('clientId', 'NEW_CLIENT_ID')).rejects.toThrow('Azure Key Vault recovery of clientId did not complete in 1 ms')
+
+    vault.stalled = true
+    await expect(storage.getString('clientId')).rejects.toThrow(KeeperTimeoutError)
+    await expect(storage.getString('clientId')).rejects.toThrow('Azure Key Vault GET /secrets/clientId timed out after 100 ms')
+
+    vault.stalled = false
+    vault.trickling = true
+    await expect(storage.getString('clientId')).rejects.toThrow('Azure Key Vault GET /secrets/clientId timed out after 100 ms')
+})
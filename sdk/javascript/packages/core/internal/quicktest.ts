@@ -10,7 +10,7 @@ import {
 import {nodePlatform} from '../src/node/nodePlatform';
 import {connectPlatform} from '../src/platform';
 import {inspect} from 'util';
-import {cachingPostFunction, localConfigStorage} from "../src/node";
+import {fileOfflineCache, localConfigStorage} from "../src/node";
 
 process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0'
 
@@ -26,7 +26,7 @@ async function test() {
     await initializeStorage(kvs, oneTimeToken)
     const options: SecretManagerOptions = {
         storage: kvs,
-        // queryFunction: cachingPostFunction
+        // offlineCache: fileOfflineCache('.cache')
         allowUnverifiedCertificate: true
     }
     const { records } = await getSecrets(options)
@@ -36,7 +36,7 @@ export default [
         ],
         external: [
             ...Object.keys(pkg.dependencies || {}),
-            "crypto", "constants", "https", "fs"
+            "crypto", "constants", "https", "fs", "path", "os", "child_process"
         ],
         plugins: [
             typescript({
@@ -1,4 +1,6 @@
-import {KeeperHttpResponse, KeyValueStorage, Platform} from '../platform'
+import {defaultKeyCache, KeeperHttpResponse, KeyCache, KeyValueStorage, Platform} from '../platform'
+import {KeeperAbortError, KeeperCryptoError, KeeperTimeoutError} from '../errors'
+import {getLogger, Logger} from '../logger'
 import {privateDerToPublicRaw} from '../utils'
 
 const bytesToBase64 = (data: Uint8Array): string => {
@@ -25,10 +27,8 @@ const getRandomBytes = (length: number): Uint8Array => {
     return data
 }
 
-const keyCache: Record<string, CryptoKey> = {}
-
-const loadPrivateKey = async (keyId: string, storage: KeyValueStorage): Promise<CryptoKey> => {
-    const cachedPrivateKey = keyCache[keyId]
+const loadPrivateKey = async (keyId: string, storage: KeyValueStorage, keyCache: KeyCache = defaultKeyCache): Promise<CryptoKey> => {
+    const cachedPrivateKey = keyCache.get(keyId)
     if (cachedPrivateKey) {
         return cachedPrivateKey
     }
@@ -52,16 +52,16 @@ const loadPrivateKey = async (keyId: string, storage: KeyValueStorage): Promise<
         }
     }
     if (!privateKey) {
-        throw new Error(`Unable to load the private key ${keyId}`)
+        throw new KeeperCryptoError(`Unable to load the private key ${keyId}`)
     }
-    keyCache[keyId] = privateKey
+    keyCache.set(keyId, privateKey)
     return privateKey
 }
 
 
-const loadKey = async (keyId: string, storage?: KeyValueStorage, useCBC?: boolean): Promise<CryptoKey> => {
+const loadKey = async (keyId: string, storage?: KeyValueStorage, useCBC?: boolean, keyCache: KeyCache = defaultKeyCache): Promise<CryptoKey> => {
     const cacheKey = useCBC ? `cbc:${keyId}` : keyId
-    const cachedKey = keyCache[cacheKey]
+    const cachedKey = keyCache.get(cacheKey)
     if (cachedKey) {
         return cachedKey
     }
@@ -78,15 +78,15 @@ const loadKey = async (keyId: string, storage?: KeyValueStorage, useCBC?: boolea
         }
     }
     if (!key) {
-        throw new Error(`Unable to load the key ${cacheKey}`)
+        throw new KeeperCryptoError(`Unable to load the key ${cacheKey}`)
     }
-    keyCache[cacheKey] = key
+    keyCache.set(cacheKey, key)
     return key
 }
 
-const generatePrivateKey = async (keyId: string, storage: KeyValueStorage): Promise<void> => {
+const generatePrivateKey = async (keyId: string, storage: KeyValueStorage, keyCache: KeyCache = defaultKeyCache): Promise<void> => {
     const keyPair = await crypto.subtle.generateKey({name: 'ECDSA', namedCurve: 'P-256'}, !storage.saveObject, ['sign', 'verify'])
-    keyCache[keyId] = keyPair.privateKey!
+    keyCache.set(keyId, keyPair.privateKey!)
     if (storage.saveObject) {
         await storage.saveObject(keyId, keyPair)
     } else {
@@ -110,7 +110,7 @@ const exportPublicKey = async (keyId: string, storage: KeyValueStorage): Promise
             return privateDerToPublicRaw(privateKeyDer)
         }
     }
-    throw new Error(`Unable to load the public key ${keyId}`)
+    throw new KeeperCryptoError(`Unable to load the public key ${keyId}`)
 }
 
 // derived from https://github.com/litert/signatures.js
@@ -169,8 +169,35 @@ const p1363ToDER = (p1363: Uint8Array): Uint8Array => {
     return der
 }
 
-const sign = async (data: Uint8Array, keyId: string, storage: KeyValueStorage): Promise<Uint8Array> => {
-    const privateKey = await loadPrivateKey(keyId, storage)
+const derToP1363 = (der: Uint8Array): Uint8Array => {
+    let offset = der[1] & 0x80 ? 2 + (der[1] & 0x7f) : 2   // skip SEQUENCE header
+    const readInteger = (): Uint8Array => {
+        const length = der[offset + 1]
+        const value = der.slice(offset + 2, offset + 2 + length)
+        offset += 2 + length
+        return value.slice(Math.max(0, value.length - 32))  // drop the sign byte
+    }
+    const r = readInteger()
+    const s = readInteger()
+    const p1363 = new Uint8Array(64)
+    p1363.set(r, 32 - r.length)
+    p1363.set(s, 64 - s.length)
+    return p1363
+}
+
+const verify = async (data: Uint8Array, signature: Uint8Array, publicKey: Uint8Array): Promise<boolean> => {
+    const key = await crypto.subtle.importKey('raw', publicKey as Uint8Array<ArrayBuffer>, {
+        name: 'ECDSA',
+        namedCurve: 'P-256'
+    }, false, ['verify'])
+    return crypto.subtle.verify({
+        name: 'ECDSA',
+        hash: 'SHA-256'
+    }, key, derToP1363(signature) as Uint8Array<ArrayBuffer>, data as Uint8Array<ArrayBuffer>)
+}
+
+const sign = async (data: Uint8Array, keyId: string, storage: KeyValueStorage, keyCache?: KeyCache): Promise<Uint8Array> => {
+    const privateKey = await loadPrivateKey(keyId, storage, keyCache)
     const signature = await crypto.subtle.sign({
         name: 'ECDSA',
         hash: 'SHA-256'
@@ -178,11 +205,11 @@ const sign = async (data: Uint8Array, keyId: string, storage: KeyValueStorage):
     return new Uint8Array(p1363ToDER(new Uint8Array(signature)))
 }
 
-const importKey = async (keyId: string, key: Uint8Array, storage?: KeyValueStorage, useCBC?: boolean): Promise<void> => {
+const importKey = async (keyId: string, key: Uint8Array, storage?: KeyValueStorage, keyCache: KeyCache = defaultKeyCache, useCBC?: boolean): Promise<void> => {
     const algorithmName = useCBC ? 'AES-CBC' : 'AES-GCM'
     const cacheKey = useCBC ? `cbc:${keyId}` : keyId
     const _key = await crypto.subtle.importKey('raw', key as Uint8Array<ArrayBuffer>, algorithmName, false, ['encrypt', 'decrypt', 'unwrapKey'])
-    keyCache[cacheKey] = _key
+    keyCache.set(cacheKey, _key)
 
     if (storage) {
         if (storage.saveObject) {
@@ -193,8 +220,8 @@ const importKey = async (keyId: string, key: Uint8Array, storage?: KeyValueStora
     }
 }
 
-const encrypt = async (data: Uint8Array, keyId: string, storage?: KeyValueStorage, useCBC?: boolean): Promise<Uint8Array> => {
-    const key = await loadKey(keyId, storage, useCBC)
+const encrypt = async (data: Uint8Array, keyId: string, storage?: KeyValueStorage, useCBC?: boolean, keyCache?: KeyCache): Promise<Uint8Array> => {
+    const key = await loadKey(keyId, storage, useCBC, keyCache)
     return __encrypt(data, key, useCBC)
 }
 
@@ -218,11 +245,11 @@ const __encrypt = async (data: Uint8Array, key: CryptoKey, useCBC?: boolean): Pr
     return encrypted
 }
 
-const unwrap = async (key: Uint8Array, keyId: string, unwrappingKeyId: string, storage?: KeyValueStorage, memoryOnly?: boolean, useCBC?: boolean): Promise<void> => {
+const unwrap = async (key: Uint8Array, keyId: string, unwrappingKeyId: string, storage?: KeyValueStorage, memoryOnly?: boolean, useCBC?: boolean, keyCache: KeyCache = defaultKeyCache): Promise<void> => {
     const loadKeyCBC = unwrappingKeyId === "appKey" ? false : useCBC
-    const unwrappingKey = await loadKey(unwrappingKeyId, storage, loadKeyCBC)
+    const unwrappingKey = await loadKey(unwrappingKeyId, storage, loadKeyCBC, keyCache)
     if (!unwrappingKey.usages.includes('unwrapKey')) {
-        throw new Error(`Key ${unwrappingKeyId} is not suitable for unwrapping`)
+        throw new KeeperCryptoError(`Key ${unwrappingKeyId} is not suitable for unwrapping`)
     }
 
     const keyIdCBC = `cbc:${keyId}`
@@ -235,13 +262,13 @@ const unwrap = async (key: Uint8Array, keyId: string, unwrappingKeyId: string, s
     const unwrappedKeyGCM = await crypto.subtle.unwrapKey('raw',
         key.subarray(ivLen) as Uint8Array<ArrayBuffer>, unwrappingKey, unwrappingAlgo,
         'AES-GCM', storage ? !storage.saveObject : false, ['encrypt', 'decrypt', 'unwrapKey'])
-    keyCache[keyId] = unwrappedKeyGCM
+    keyCache.set(keyId, unwrappedKeyGCM)
 
     if (useCBC) {
         const unwrappedKeyCBC = await crypto.subtle.unwrapKey('raw',
             key.subarray(ivLen) as Uint8Array<ArrayBuffer>, unwrappingKey, unwrappingAlgo,
             'AES-CBC', storage ? !storage.saveObject : false, ['encrypt', 'decrypt', 'unwrapKey'])
-        keyCache[keyIdCBC] = unwrappedKeyCBC
+        keyCache.set(keyIdCBC, unwrappedKeyCBC)
     }
 
     if (memoryOnly) {
@@ -250,21 +277,21 @@ const unwrap = async (key: Uint8Array, keyId: string, unwrappingKeyId: string, s
 
     if (storage) {
         if (storage.saveObject) {
-            await storage.saveObject(keyId, keyCache[keyId])
-            if (useCBC) await storage.saveObject(keyIdCBC, keyCache[keyIdCBC])
+            await storage.saveObject(keyId, keyCache.get(keyId))
+            if (useCBC) await storage.saveObject(keyIdCBC, keyCache.get(keyIdCBC))
         } else {
-            const keyArray = await crypto.subtle.exportKey('raw', keyCache[keyId])
+            const keyArray = await crypto.subtle.exportKey('raw', keyCache.get(keyId))
             await storage.saveBytes(keyId, new Uint8Array(keyArray))
             if (useCBC) {
-                const keyArray = await crypto.subtle.exportKey('raw', keyCache[keyIdCBC])
+                const keyArray = await crypto.subtle.exportKey('raw', keyCache.get(keyIdCBC))
                 await storage.saveBytes(keyIdCBC, new Uint8Array(keyArray))
             }
         }
     }
 }
 
-const decrypt = async (data: Uint8Array, keyId: string, storage?: KeyValueStorage, useCBC?: boolean): Promise<Uint8Array> => {
-    const key = await loadKey(keyId, storage, useCBC)
+const decrypt = async (data: Uint8Array, keyId: string, storage?: KeyValueStorage, useCBC?: boolean, keyCache?: KeyCache): Promise<Uint8Array> => {
+    const key = await loadKey(keyId, storage, useCBC, keyCache)
     return __decrypt(data, key, useCBC)
 }
 
@@ -324,45 +351,80 @@ const publicEncrypt = async (data: Uint8Array, key: Uint8Array, id?: Uint8Array)
     return result
 }
 
-const get = async (url: string, headers: any): Promise<KeeperHttpResponse> => {
-    const resp = await fetch(url, {
-        method: 'GET',
-        headers: Object.entries(headers),
-    })
-    const body = await resp.arrayBuffer()
-    return {
-        statusCode: resp.status,
-        headers: resp.headers,
-        data: new Uint8Array(body)
+const get = async (url: string, headers: any, signal?: AbortSignal): Promise<KeeperHttpResponse> => {
+    try {
+        const resp = await fetch(url, {
+            method: 'GET',
+            headers: Object.entries(headers),
+            signal: signal
+        })
+        const body = await resp.arrayBuffer()
+        return {
+            statusCode: resp.status,
+            headers: resp.headers,
+            data: new Uint8Array(body)
+        }
+    } catch (e) {
+        // fetch rejects with a DOMException on abort
+        if (signal?.aborted) {
+            throw new KeeperAbortError()
+        }
+        throw e
     }
 }
 
 const post = async (
     url: string,
     request: Uint8Array | string,
-    headers?: { [key: string]: string }
+    headers?: { [key: string]: string },
+    allowUnverifiedCertificate?: boolean,
+    timeout?: number,
+    signal?: AbortSignal
 ): Promise<KeeperHttpResponse> => {
-    const resp = await fetch(url, {
-        method: 'POST',
-        headers: new Headers({
-            'Content-Type': 'application/octet-stream',
-            'Content-Length': String(request.length),
-            ...headers
-        }),
-        body: typeof request === 'string' ? request : request as Uint8Array<ArrayBuffer>,
-    })
-    const body = await resp.arrayBuffer()
-    return {
-        statusCode: resp.status,
-        headers: resp.headers,
-        data: new Uint8Array(body)
+    const controller = timeout || signal ? new AbortController() : undefined
+    const timer = timeout ? setTimeout(() => controller!.abort(), timeout) : undefined
+    const onAbort = () => controller!.abort()
+    if (signal?.aborted) {
+        throw new KeeperAbortError()
+    }
+    signal?.addEventListener('abort', onAbort, {once: true})
+    try {
+        const resp = await fetch(url, {
+            method: 'POST',
+            headers: new Headers({
+                'Content-Type': 'application/octet-stream',
+                'Content-Length': String(request.length),
+                ...headers
+            }),
+            body: typeof request === 'string' ? request : request as Uint8Array<ArrayBuffer>,
+            signal: controller?.signal
+        })
+        const body = await resp.arrayBuffer()
+        return {
+            statusCode: resp.status,
+            headers: resp.headers,
+            data: new Uint8Array(body)
+        }
+    } catch (e) {
+        if (signal?.aborted) {
+            throw new KeeperAbortError()
+        }
+        if (controller?.signal.aborted) {
+            throw new KeeperTimeoutError(`Request timed out after ${timeout} ms`)
+        }
+        throw e
+    } finally {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
     }
 }
 
 const fileUpload = async (
     url: string,
     uploadParameters: { [key: string]: string },
-    data: Uint8Array
+    data: Uint8Array,
+    signal?: AbortSignal,
+    logger: Logger = getLogger()
 ): Promise<any> => {
     const form = new FormData();
 
@@ -374,6 +436,7 @@ const fileUpload = async (
     const fetchCfg = {
         method: 'POST',
         body: form,
+        signal: signal
     };
 
     try {
@@ -384,19 +447,31 @@ const fileUpload = async (
             statusMessage: res.statusText
         };
     } catch (error) {
-        console.error('Error uploading file:', error);
+        if (signal?.aborted) {
+            throw new KeeperAbortError();
+        }
+        logger.error(`Error uploading file: ${error}`);
         throw error;
     }
 };
 
-const cleanKeyCache = () => {
-    for (const key in keyCache) {
-        delete keyCache[key]
-    }
+const cleanKeyCache = (keyCache: KeyCache = defaultKeyCache, keepKeyIds?: string[]) => {
+    keyCache.clear(keepKeyIds)
 }
 
-const hasKeysCached = (): boolean => {
-    return Object.keys(keyCache).length > 0
+const hasKeysCached = (keyCache: KeyCache = defaultKeyCache): boolean => {
+    return !keyCache.isEmpty()
+}
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+    const key = await crypto.subtle.importKey('raw', stringToBytes(passphrase) as Uint8Array<ArrayBuffer>, 'PBKDF2', false, ['deriveBits'])
+    const bits = await crypto.subtle.deriveBits({
+        name: 'PBKDF2',
+        salt: salt as Uint8Array<ArrayBuffer>,
+        iterations: iterations,
+        hash: 'SHA-256'
+    }, key, 256)
+    return new Uint8Array(bits)
 }
 
 const getHmacDigest = async (algorithm: string, secret: Uint8Array, message: Uint8Array): Promise<Uint8Array> => {
@@ -435,7 +510,7 @@ const getRandomCharacterInCharset = async (charset: string): Promise<string> =>
 }
 
 const setCustomProxyAgent = () => {
-    console.warn('setCustomProxyAgent is not supported in browser')
+    getLogger().warn('setCustomProxyAgent is not supported in browser')
 }
 
 export const browserPlatform: Platform = {
@@ -453,8 +528,10 @@ export const browserPlatform: Platform = {
     decrypt: decrypt,
     decryptWithKey: _decrypt,
     hash: hash,
+    deriveKey: deriveKey,
     publicEncrypt: publicEncrypt,
     sign: sign,
+    verify: verify,
     get: get,
     post: post,
     fileUpload: fileUpload,
@@ -6,7 +6,17 @@ connectPlatform(browserPlatform)
 initialize()
 
 export * from '../keeper'
-export {loadJsonConfig, inMemoryStorage} from '../platform'
+export * from '../secretsManager'
+export * from '../secretsCache'
+export * from '../offlineCache'
+export * from '../config'
+export * from '../profiles'
+export * from '../recordTypes'
+export * from '../recordBuilder'
+export * from '../recordUpdates'
+export {loadJsonConfig, inMemoryStorage, jsonDocumentStorage, JsonDocument, createKeyCache, KeyCache} from '../platform'
+export * from '../errors'
+export * from '../logger'
 export * from '../notation'
 export {getTotpCode, generatePassword} from '../utils'
 export * from './localConfigStorage'
@@ -1,4 +1,5 @@
 import {EncryptedPayload, KeeperHttpResponse, KeyValueStorage, TransmissionKey, platform} from "../platform";
+import {KeeperAbortError, KeeperStorageError} from "../errors";
 
 export const localConfigStorage = (client: string, useObjects: boolean): KeyValueStorage => {
 
@@ -67,23 +68,27 @@ export const localConfigStorage = (client: string, useObjects: boolean): KeyValu
     return storage
 };
 
-export function createCachingFunction(storage: KeyValueStorage): (url: string, transmissionKey: TransmissionKey, payload: EncryptedPayload) => Promise<KeeperHttpResponse> {
+// deprecated - replays the last response for any request, use SecretManagerOptions.offlineCache with storageOfflineCache
+export function createCachingFunction(storage: KeyValueStorage): (url: string, transmissionKey: TransmissionKey, payload: EncryptedPayload, allowUnverifiedCertificate?: boolean, timeout?: number, signal?: AbortSignal) => Promise<KeeperHttpResponse> {
 
-    return async (url: string, transmissionKey: TransmissionKey, payload: EncryptedPayload): Promise<KeeperHttpResponse> => {
+    return async (url: string, transmissionKey: TransmissionKey, payload: EncryptedPayload, allowUnverifiedCertificate?: boolean, timeout?: number, signal?: AbortSignal): Promise<KeeperHttpResponse> => {
         try {
             const response = await platform.post(url, payload.payload, {
                 PublicKeyId: transmissionKey.publicKeyId.toString(),
                 TransmissionKey: platform.bytesToBase64(transmissionKey.encryptedKey),
                 Authorization: `Signature ${platform.bytesToBase64(payload.signature)}`
-            })
+            }, allowUnverifiedCertificate, timeout, signal)
             if (response.statusCode == 200) {
                 await storage.saveBytes('cache', new Uint8Array([...transmissionKey.key, ...response.data]))
             }
             return response
         } catch (e) {
+            if (e instanceof KeeperAbortError) {
+                throw e
+            }
             const cachedData = await storage.getBytes('cache')
             if (!cachedData) {
-                throw new Error('Cached value does not exist')
+                throw new KeeperStorageError('Cached value does not exist')
             }
             transmissionKey.key = cachedData.slice(0, 32)
             return {
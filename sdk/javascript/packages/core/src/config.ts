@@ -0,0 +1,187 @@
+import {createKeyCache, KeyValueStorage, platform} from './platform'
+import {KeeperError, KeeperStorageError} from './errors'
+import {getSecrets2, keeperRegions, SecretManagerOptions} from './keeper'
+
+export type ExportConfigOptions = {
+    format?: 'json' | 'base64'      // base64 by default, both are accepted by loadJsonConfig
+    allowUnbound?: boolean          // export a config that has not been bound yet, it holds the one time token (clientKey)
+}
+
+// keys kept as strings
+const configStringKeys = ['hostname', 'clientId', 'appOwnerPublicKey', 'serverPublicKeyId']
+// keys kept as bytes, read with getBytes since storages may keep them in their own format
+const configBytesKeys = ['privateKey', 'appKey', 'clientKey']
+
+// all the keys the SDK keeps in a configuration storage
+export const configKeys = [...configStringKeys, ...configBytesKeys]
+
+// reads the known configuration values, checks that the config is complete
+const readConfig = async (storage: KeyValueStorage, allowUnbound?: boolean): Promise<{ [key: string]: string }> => {
+    const config: { [key: string]: string } = {}
+    for (const key of configStringKeys) {
+        const value = await storage.getString(key)
+        if (value) {
+            config[key] = value
+        }
+    }
+    for (const key of configBytesKeys) {
+        const value = await storage.getBytes(key)
+        if (!value) {
+            continue
+        }
+        if (!(value instanceof Uint8Array)) {
+            throw new KeeperStorageError(`${key} is kept as a non-exportable key object by the storage`)
+        }
+        config[key] = platform.bytesToBase64(value)
+    }
+    const missingKeys = ['hostname', 'clientId', 'privateKey'].filter(key => !config[key])
+    if (!config.appKey) {
+        if (!config.clientKey) {
+            missingKeys.push('appKey')
+        } else if (!allowUnbound) {
+            throw new KeeperStorageError('The configuration is not bound yet, it contains the one time token only')
+        }
+    }
+    if (missingKeys.length > 0) {
+        throw new KeeperStorageError(`The configuration is incomplete, missing ${missingKeys.join(', ')}`)
+    }
+    if (config.appKey) {
+        delete config.clientKey  // left over from binding, not used anymore
+    }
+    return config
+}
+
+// serializes the configuration in the format loadJsonConfig consumes, ex. to move it to a CI secret
+export const exportConfig = async (storage: KeyValueStorage, options: ExportConfigOptions = {}): Promise<string> => {
+    const config = await readConfig(storage, options.allowUnbound)
+    if (options.format === 'json') {
+        return JSON.stringify(config, null, 2)
+    }
+    return platform.bytesToBase64(platform.stringToBytes(JSON.stringify(config)))
+}
+
+// copies the configuration between storages, ex. from AWS SSM to a local file
+export const copyStorage = async (from: KeyValueStorage, to: KeyValueStorage, allowUnbound?: boolean): Promise<void> => {
+    const config = await readConfig(from, allowUnbound)
+    const saveConfig = async () => {
+        for (const key of Object.keys(config)) {
+            if (configBytesKeys.includes(key)) {
+                await to.saveBytes(key, platform.base64ToBytes(config[key]))
+            } else {
+                await to.saveString(key, config[key])
+            }
+        }
+    }
+    await (to.batch ? to.batch(saveConfig) : saveConfig())
+}
+
+export type ConfigCheck = {
+    name: 'requiredKeys' | 'privateKey' | 'hostname' | 'binding' | 'connection'
+    status: 'ok' | 'warning' | 'error'
+    message: string
+}
+
+export type ConfigReport = {
+    valid: boolean          // there are no checks with the error status
+    bound: boolean          // the application key is present
+    region?: string         // region of the hostname, ex. US
+    checks: ConfigCheck[]
+}
+
+const createReport = (checks: ConfigCheck[], bound: boolean, region?: string): ConfigReport => ({
+    valid: checks.every(x => x.status !== 'error'),
+    bound,
+    region,
+    checks
+})
+
+// Checks the configuration without contacting the server, never throws.
+export const validateConfig = async (storage: KeyValueStorage): Promise<ConfigReport> => {
+    const checks: ConfigCheck[] = []
+    const getValue = async (key: string, bytes?: boolean): Promise<any> => {
+        try {
+            return bytes ? await storage.getBytes(key) : await storage.getString(key)
+        } catch {
+            return undefined
+        }
+    }
+    const hostname: string | undefined = await getValue('hostname')
+    const clientId = await getValue('clientId')
+    const privateKey = await getValue('privateKey', true)
+    const appKey = await getValue('appKey', true)
+    const clientKey = await getValue('clientKey', true)
+
+    const missingKeys: string[] = []
+    if (!hostname) {
+        missingKeys.push('hostname')
+    }
+    if (!clientId) {
+        missingKeys.push('clientId')
+    }
+    if (!privateKey) {
+        missingKeys.push('privateKey')
+    }
+    if (!appKey && !clientKey) {
+        missingKeys.push('appKey')
+    }
+    checks.push(missingKeys.length > 0
+        ? {name: 'requiredKeys', status: 'error', message: `Missing ${missingKeys.join(', ')}`}
+        : {name: 'requiredKeys', status: 'ok', message: 'All required keys are present'})
+
+    // the private key config value holds the public key sent to the server at binding as well,
+    // a signature made with the private key must verify with that stored public key
+    if (privateKey && !platform.verify) {
+        checks.push({name: 'privateKey', status: 'warning', message: 'Private key can\'t be checked, the platform does not support signature verification'})
+    } else if (privateKey) {
+        try {
+            // fresh key cache, so the key is loaded from the storage
+            const keyCache = createKeyCache()
+            const data = platform.getRandomBytes(32)
+            const signature = await platform.sign(data, 'privateKey', storage, keyCache)
+            const storedPublicKey = await platform.exportPublicKey('privateKey', storage, keyCache)
+            checks.push(await platform.verify!(data, signature, storedPublicKey)
+                ? {name: 'privateKey', status: 'ok', message: 'Private key matches the stored public key'}
+                : {name: 'privateKey', status: 'error', message: 'Private key does not match the stored public key'})
+        } catch (e: Error | any) {
+            checks.push({name: 'privateKey', status: 'error', message: `Private key can't be parsed: ${e.message}`})
+        }
+    }
+
+    let region: string | undefined
+    if (hostname) {
+        region = Object.keys(keeperRegions).find(x => keeperRegions[x] === hostname.toLowerCase())
+        checks.push(region
+            ? {name: 'hostname', status: 'ok', message: `${hostname} is the ${region} region`}
+            : {name: 'hostname', status: 'warning', message: `${hostname} is not a known Keeper region: ${Object.keys(keeperRegions).map(x => keeperRegions[x]).join(', ')}`})
+    }
+
+    if (appKey) {
+        checks.push({name: 'binding', status: 'ok', message: 'The application is bound'})
+    } else if (clientKey) {
+        checks.push({name: 'binding', status: 'warning', message: 'The application is not bound yet, it is bound on the first request with the one time token'})
+    }
+    return createReport(checks, !!appKey, region)
+}
+
+// validateConfig and, when checkConnection is set, a get_secret request that returns no records to confirm the credentials.
+// The request is skipped for configurations that are not bound yet, since it would bind the one time token.
+export const diagnose = async (options: SecretManagerOptions, checkConnection?: boolean): Promise<ConfigReport> => {
+    const report = await validateConfig(options.storage)
+    if (!checkConnection) {
+        return report
+    }
+    const checks = [...report.checks]
+    if (!report.valid || !report.bound) {
+        checks.push({name: 'connection', status: 'warning', message: 'Connection check skipped, the configuration is not valid or not bound'})
+    } else {
+        try {
+            // own key cache, so the keys of the client are not dropped
+            await getSecrets2({...options, keyCache: createKeyCache(), secretsCache: undefined, offlineCache: undefined}, {recordsFilter: []})
+            checks.push({name: 'connection', status: 'ok', message: 'The server accepted the credentials'})
+        } catch (e: Error | any) {
+            const resultCode = e instanceof KeeperError && e.resultCode ? ` (${e.resultCode})` : ''
+            checks.push({name: 'connection', status: 'error', message: `${e.name}: ${e.message}${resultCode}`})
+        }
+    }
+    return createReport(checks, report.bound, report.region)
+}
@@ -0,0 +1,135 @@
+export type KeeperErrorDetails = {
+    statusCode?: number     // HTTP status code of the failed response
+    resultCode?: string     // server result_code (or error) value, ex. access_denied
+    route?: string          // Secrets Manager API route, ex. get_secret
+    recordUid?: string
+    folderUid?: string
+    responseBody?: string   // raw server response, up to 1000 bytes
+    cause?: unknown
+}
+
+// Record, folder or file dropped from the results because it failed to decrypt
+export type KeeperItemError = {
+    uid: string
+    kind: 'record' | 'folder' | 'file'
+    reason: string
+    recordUid?: string      // owner record of a skipped file
+    folderUid?: string      // folder of a skipped record
+}
+
+// Error body returned by the Secrets Manager API on non-200 responses
+export type KeeperErrorResponse = {
+    error?: string
+    result_code?: string
+    message?: string
+    additional_info?: string
+    key_id?: number
+}
+
+// Base class for all errors thrown by the SDK
+export class KeeperError extends Error {
+    statusCode?: number
+    resultCode?: string
+    route?: string
+    recordUid?: string
+    folderUid?: string
+    responseBody?: string
+    cause?: unknown
+
+    constructor(message: string, details: KeeperErrorDetails = {}) {
+        super(message)
+        this.name = new.target.name
+        Object.assign(this, details)
+    }
+}
+
+// Signature is invalid, client revoked or not bound, access denied
+export class KeeperAuthError extends KeeperError {}
+
+// Server asks to slow down
+export class KeeperThrottledError extends KeeperError {}
+
+// Record, folder or file is not found
+export class KeeperNotFoundError extends KeeperError {}
+
+// Record was changed by someone else since it was read, the update used an outdated revision
+export class KeeperConflictError extends KeeperError {}
+
+// Keeper notation is invalid or does not resolve to a value
+export class KeeperNotationError extends KeeperError {}
+
+// Configuration values are missing or the storage cannot be read or written
+export class KeeperStorageError extends KeeperError {}
+
+// Key is missing from the cache/storage or data fails to encrypt/decrypt
+export class KeeperCryptoError extends KeeperError {}
+
+// Any other error reported by the server
+export class KeeperServerError extends KeeperError {}
+
+// Request did not complete within the configured timeout
+export class KeeperTimeoutError extends KeeperError {}
+
+// Thrown in strict mode when some of the requested items could not be decrypted
+export class KeeperPartialResultError extends KeeperError {
+    errors: KeeperItemError[]
+
+    constructor(errors: KeeperItemError[]) {
+        super(`${errors.length} item(s) skipped due to errors: ${errors.map(x => `${x.kind} ${x.uid}`).join(', ')}`)
+        this.errors = errors
+    }
+}
+
+// Problem found by validateRecordData, path points to the value, ex. fields[1].value[0].port
+export type RecordDataViolation = {
+    path: string
+    message: string
+}
+
+// Record data does not match its record type, thrown by RecordBuilder.build
+export class KeeperValidationError extends KeeperError {
+    violations: RecordDataViolation[]
+
+    constructor(violations: RecordDataViolation[]) {
+        super(`Record data is not valid: ${violations.map(x => `${x.path} ${x.message}`).join('; ')}`)
+        this.violations = violations
+    }
+}
+
+// Thrown when an operation is cancelled through an AbortSignal
+export class KeeperAbortError extends KeeperError {
+    constructor(message: string = 'The operation was aborted') {
+        super(message)
+        this.name = 'AbortError'
+    }
+}
+
+export const createServerError = (statusCode: number, response: KeeperErrorResponse | undefined, responseBody: string | undefined, details: KeeperErrorDetails = {}): KeeperError => {
+    const resultCode = response?.result_code ?? response?.error
+    const message = response?.message || responseBody || `unknown ksm error, code ${statusCode}`
+    const errorDetails: KeeperErrorDetails = {...details, statusCode, resultCode, responseBody}
+    switch (resultCode) {
+        case 'access_denied':
+        case 'invalid_client':
+        case 'invalid_token':
+            return new KeeperAuthError(message, errorDetails)
+        case 'throttled':
+            return new KeeperThrottledError(message, errorDetails)
+        case 'record_uid_not_found':
+        case 'folder_uid_not_found':
+            return new KeeperNotFoundError(message, errorDetails)
+        case 'out_of_sync':
+            return new KeeperConflictError(message, errorDetails)
+    }
+    switch (statusCode) {
+        case 401:
+            return new KeeperAuthError(message, errorDetails)
+        case 404:
+            return new KeeperNotFoundError(message, errorDetails)
+        case 409:
+            return new KeeperConflictError(message, errorDetails)
+        case 429:
+            return new KeeperThrottledError(message, errorDetails)
+    }
+    return new KeeperServerError(message, errorDetails)
+}
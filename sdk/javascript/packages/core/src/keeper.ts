@@ -1,6 +1,22 @@
-import {EncryptedPayload, KeeperHttpResponse, KeyValueStorage, platform, TransmissionKey} from './platform'
+import {createKeyCache, defaultKeyCache, EncryptedPayload, KeeperHttpResponse, KeyCache, KeyValueStorage, platform, TransmissionKey} from './platform'
+import {
+    createServerError,
+    KeeperAbortError,
+    KeeperCryptoError,
+    KeeperErrorResponse,
+    KeeperItemError,
+    KeeperNotationError,
+    KeeperPartialResultError,
+    KeeperServerError,
+    KeeperStorageError,
+    KeeperThrottledError
+} from './errors'
+import {getLogger, Logger} from './logger'
+import {copyKey, SecretsCache} from './secretsCache'
+import {decryptOfflineCacheEntry, encryptOfflineCacheEntry, getOfflineCacheEntryId, OfflineCache, offlineCacheRoutes} from './offlineCache'
 import {webSafe64FromBytes, webSafe64ToBytes, tryParseInt} from './utils'
 import {parseNotation} from './notation'
+import {TypedRecordData} from './recordTypes'
 
 export {KeyValueStorage} from './platform'
 
@@ -41,14 +57,46 @@ export const initialize = (pkgVersion?: string) => {
 
 export type SecretManagerOptions = {
     storage: KeyValueStorage
-    queryFunction?: (url: string, transmissionKey: TransmissionKey, payload: EncryptedPayload, allowUnverifiedCertificate?: boolean) => Promise<KeeperHttpResponse>
+    queryFunction?: (url: string, transmissionKey: TransmissionKey, payload: EncryptedPayload, allowUnverifiedCertificate?: boolean, timeout?: number, signal?: AbortSignal) => Promise<KeeperHttpResponse>
     allowUnverifiedCertificate?: boolean
+    retryPolicy?: RetryPolicy
+    signal?: AbortSignal            // cancels pending requests, use {...options, signal} for a single call
+    logger?: Logger                 // overrides the logger set by setLogger() for this client
+    keyCache?: KeyCache             // decrypted keys of this client, shared process wide cache is used when not provided
+    wipeKeysAfterFetch?: boolean    // every call decrypts with a key cache of its own, zero-filled as soon as the call completes,
+                                    // updateSecret, uploadFile and downloadFile can't be used in this mode,
+                                    // getNotationResults keeps the keys until a /file/ notation is downloaded
+    secretsCache?: SecretsCache     // serves getSecrets results from memory, see createSecretsCache
+    offlineCache?: OfflineCache     // last get_secret/get_folders responses, used when the server can't be reached
+}
+
+export type RetryPolicy = {
+    maxAttempts?: number            // total attempts per request, including the first one (default 1 - no retries),
+                                    // network failures and server errors are retried for the read requests only
+    initialDelay?: number           // delay before the first retry, ms
+    maxDelay?: number               // upper bound for a single delay, including Retry-After, ms
+    backoffFactor?: number          // exponential backoff multiplier
+    jitter?: boolean                // randomize delays (full jitter) to avoid retry storms
+    timeout?: number                // per-request timeout, ms
+    retryableStatusCodes?: number[] // HTTP status codes that are retried, the changes are retried when throttled only
+    maxKeyRotations?: number        // max server public key switches requested by the server per query
+}
+
+const defaultRetryPolicy: Required<Omit<RetryPolicy, 'timeout'>> = {
+    maxAttempts: 1,
+    initialDelay: 500,
+    maxDelay: 30000,
+    backoffFactor: 2,
+    jitter: true,
+    retryableStatusCodes: [429, 500, 502, 503, 504],
+    maxKeyRotations: 3
 }
 
 export type QueryOptions = {
     recordsFilter?: string[]
     foldersFilter?: string[]
     requestLinks?: boolean
+    strict?: boolean    // throw KeeperPartialResultError instead of skipping items that fail to decrypt
 }
 
 export type CreateOptions = {
@@ -143,13 +191,13 @@ type FileUploadPayload = CommonPayload & {
     fileSize: number
 }
 
-type SecretsManagerDeleteResponseRecord = {
+export type SecretsManagerDeleteResponseRecord = {
     errorMessage: string
     recordUid: string
     responseCode: string
 }
 
-type SecretsManagerDeleteResponseFolder =  {
+export type SecretsManagerDeleteResponseFolder =  {
     errorMessage: string
     folderUid: string
     responseCode: string
@@ -199,7 +247,7 @@ type SecretsManagerResponse = {
     extra?: {}
 }
 
-type SecretsManagerDeleteResponse = {
+export type SecretsManagerDeleteResponse = {
     records: SecretsManagerDeleteResponseRecord[]
     folders: SecretsManagerDeleteResponseFolder[]
 }
@@ -219,16 +267,18 @@ export type KeeperSecrets = {
     records: KeeperRecord[]
     warnings?: string[]
     extra?: {}
+    errors?: KeeperItemError[]  // skipped records, folders and files
 }
 
 export type KeeperRecord = {
     recordUid: string
     folderUid?: string
     innerFolderUid?: string
-    data: any
+    data: TypedRecordData
     revision: number
     files?: KeeperFile[]
     links?: KeeperRecordLink[]
+    errors?: KeeperItemError[]  // skipped files
 }
 
 export type KeeperFolder = {
@@ -251,11 +301,6 @@ export type KeeperFileUpload = {
     data: Uint8Array
 }
 
-type KeeperError = {
-    error?: string
-    key_id?: number
-}
-
 const getUidBytes = (): Uint8Array => {
     const dash = new Uint8Array([0b1111_1000, 0b0111_1111])
     let bytes = new Uint8Array(16)
@@ -269,10 +314,10 @@ const getUidBytes = (): Uint8Array => {
     return bytes
 }
 
-const prepareGetPayload = async (storage: KeyValueStorage, queryOptions?: QueryOptions): Promise<GetPayload> => {
+const prepareGetPayload = async (storage: KeyValueStorage, queryOptions?: QueryOptions, keyCache?: KeyCache): Promise<GetPayload> => {
     const clientId = await storage.getString(KEY_CLIENT_ID)
     if (!clientId) {
-        throw new Error('Client Id is missing from the configuration')
+        throw new KeeperStorageError('Client Id is missing from the configuration')
     }
     const payload: GetPayload = {
         clientVersion: 'ms' + packageVersion,
@@ -280,7 +325,7 @@ const prepareGetPayload = async (storage: KeyValueStorage, queryOptions?: QueryO
     }
     const appKey = await storage.getBytes(KEY_APP_KEY)
     if (!appKey) {
-        const publicKey = await platform.exportPublicKey(KEY_PRIVATE_KEY, storage)
+        const publicKey = await platform.exportPublicKey(KEY_PRIVATE_KEY, storage, keyCache)
         payload.publicKey = platform.bytesToBase64(publicKey)
     }
     if (queryOptions?.recordsFilter) {
@@ -295,24 +340,24 @@ const prepareGetPayload = async (storage: KeyValueStorage, queryOptions?: QueryO
     return payload
 }
 
-const prepareUpdatePayload = async (storage: KeyValueStorage, record: KeeperRecord, updateOptions?: UpdateOptions): Promise<UpdatePayload> => {
+const prepareUpdatePayload = async (storage: KeyValueStorage, record: KeeperRecord, updateOptions?: UpdateOptions, keyCache?: KeyCache): Promise<UpdatePayload> => {
     const clientId = await storage.getString(KEY_CLIENT_ID)
     if (!clientId) {
-        throw new Error('Client Id is missing from the configuration')
+        throw new KeeperStorageError('Client Id is missing from the configuration')
     }
     const {transactionType, links2Remove} = updateOptions ?? {}
     if (links2Remove && links2Remove.length > 0) {
         const fields = record.data.fields;
         const fileRef = fields.find(x => x.type == 'fileRef');
         if (fileRef) {
-            fileRef.value = fileRef.value.filter(uid => !links2Remove.includes(uid));
+            fileRef.value = (fileRef.value || []).filter(uid => !links2Remove.includes(uid));
             if (fileRef.value.length === 0) {
                 record.data.fields = fields.filter(x => x.type != 'fileRef');
             }
         }
     }
     const recordBytes = platform.stringToBytes(JSON.stringify(record.data))
-    const encryptedRecord = await platform.encrypt(recordBytes, record.recordUid || KEY_APP_KEY)
+    const encryptedRecord = await platform.encrypt(recordBytes, record.recordUid || KEY_APP_KEY, undefined, undefined, keyCache)
     const payload: UpdatePayload = {
         clientVersion: 'ms' + packageVersion,
         clientId: clientId,
@@ -332,7 +377,7 @@ const prepareUpdatePayload = async (storage: KeyValueStorage, record: KeeperReco
 const prepareCompleteTransactionPayload = async (storage: KeyValueStorage, recordUid: string): Promise<CompleteTransactionPayload> => {
     const clientId = await storage.getString(KEY_CLIENT_ID)
     if (!clientId) {
-        throw new Error('Client Id is missing from the configuration')
+        throw new KeeperStorageError('Client Id is missing from the configuration')
     }
     const payload: CompleteTransactionPayload =  {
         clientVersion: 'ms' + packageVersion,
@@ -345,7 +390,7 @@ const prepareCompleteTransactionPayload = async (storage: KeyValueStorage, recor
 const prepareDeletePayload = async (storage: KeyValueStorage, recordUids: string[]): Promise<DeletePayload> => {
     const clientId = await storage.getString(KEY_CLIENT_ID)
     if (!clientId) {
-        throw new Error('Client Id is missing from the configuration')
+        throw new KeeperStorageError('Client Id is missing from the configuration')
     }
     return {
         clientVersion: 'ms' + packageVersion,
@@ -357,7 +402,7 @@ const prepareDeletePayload = async (storage: KeyValueStorage, recordUids: string
 const prepareDeleteFolderPayload = async (storage: KeyValueStorage, folderUids: string[], forceDeletion: boolean = false): Promise<DeleteFolderPayload> => {
     const clientId = await storage.getString(KEY_CLIENT_ID)
     if (!clientId) {
-        throw new Error('Client Id is missing from the configuration')
+        throw new KeeperStorageError('Client Id is missing from the configuration')
     }
     return {
         clientVersion: 'ms' + packageVersion,
@@ -367,21 +412,21 @@ const prepareDeleteFolderPayload = async (storage: KeyValueStorage, folderUids:
     }
 }
 
-const prepareCreatePayload = async (storage: KeyValueStorage, createOptions: CreateOptions, recordData: any): Promise<CreatePayload> => {
+const prepareCreatePayload = async (storage: KeyValueStorage, createOptions: CreateOptions, recordData: any, keyCache?: KeyCache): Promise<CreatePayload> => {
     const clientId = await storage.getString(KEY_CLIENT_ID)
     if (!clientId) {
-        throw new Error('Client Id is missing from the configuration')
+        throw new KeeperStorageError('Client Id is missing from the configuration')
     }
     const ownerPublicKey = await storage.getBytes(KEY_OWNER_PUBLIC_KEY)
     if (!ownerPublicKey) {
-        throw new Error('Application owner public key is missing from the configuration')
+        throw new KeeperStorageError('Application owner public key is missing from the configuration')
     }
     const recordBytes = platform.stringToBytes(JSON.stringify(recordData))
     const recordKey = platform.getRandomBytes(32)
     const recordUid = getUidBytes()
     const encryptedRecord = await platform.encryptWithKey(recordBytes, recordKey)
     const encryptedRecordKey = await platform.publicEncrypt(recordKey, ownerPublicKey)
-    const encryptedFolderKey = await platform.encrypt(recordKey, createOptions.folderUid)
+    const encryptedFolderKey = await platform.encrypt(recordKey, createOptions.folderUid, undefined, undefined, keyCache)
     return {
         clientVersion: 'ms' + packageVersion,
         clientId: clientId,
@@ -394,10 +439,10 @@ const prepareCreatePayload = async (storage: KeyValueStorage, createOptions: Cre
     }
 }
 
-const prepareCreateFolderPayload = async (storage: KeyValueStorage, createOptions: CreateOptions, folderName: string): Promise<CreateFolderPayload> => {
+const prepareCreateFolderPayload = async (storage: KeyValueStorage, createOptions: CreateOptions, folderName: string, keyCache?: KeyCache): Promise<CreateFolderPayload> => {
     const clientId = await storage.getString(KEY_CLIENT_ID)
     if (!clientId) {
-        throw new Error('Client Id is missing from the configuration')
+        throw new KeeperStorageError('Client Id is missing from the configuration')
     }
     const folderDataBytes = platform.stringToBytes(JSON.stringify({
         name: folderName
@@ -405,7 +450,7 @@ const prepareCreateFolderPayload = async (storage: KeyValueStorage, createOption
     const folderKey = platform.getRandomBytes(32)
     const folderUid = getUidBytes()
     const encryptedFolderData = await platform.encryptWithKey(folderDataBytes, folderKey, true)
-    const encryptedFolderKey = await platform.encrypt(folderKey, createOptions.folderUid, undefined, true)
+    const encryptedFolderKey = await platform.encrypt(folderKey, createOptions.folderUid, undefined, true, keyCache)
     return {
         clientVersion: 'ms' + packageVersion,
         clientId: clientId,
@@ -417,15 +462,15 @@ const prepareCreateFolderPayload = async (storage: KeyValueStorage, createOption
     }
 }
 
-const prepareUpdateFolderPayload = async (storage: KeyValueStorage, folderUid: string, folderName: string): Promise<UpdateFolderPayload> => {
+const prepareUpdateFolderPayload = async (storage: KeyValueStorage, folderUid: string, folderName: string, keyCache?: KeyCache): Promise<UpdateFolderPayload> => {
     const clientId = await storage.getString(KEY_CLIENT_ID)
     if (!clientId) {
-        throw new Error('Client Id is missing from the configuration')
+        throw new KeeperStorageError('Client Id is missing from the configuration')
     }
     const folderDataBytes = platform.stringToBytes(JSON.stringify({
         name: folderName
     }))
-    const encryptedFolderData = await platform.encrypt(folderDataBytes, folderUid, undefined, true)
+    const encryptedFolderData = await platform.encrypt(folderDataBytes, folderUid, undefined, true, keyCache)
     return {
         clientVersion: 'ms' + packageVersion,
         clientId: clientId,
@@ -434,17 +479,17 @@ const prepareUpdateFolderPayload = async (storage: KeyValueStorage, folderUid: s
     }
 }
 
-const prepareFileUploadPayload = async (storage: KeyValueStorage, ownerRecord: KeeperRecord, file: KeeperFileUpload): Promise<{
+const prepareFileUploadPayload = async (storage: KeyValueStorage, ownerRecord: KeeperRecord, file: KeeperFileUpload, keyCache?: KeyCache): Promise<{
     payload: FileUploadPayload,
     encryptedFileData: Uint8Array
 }> => {
     const clientId = await storage.getString(KEY_CLIENT_ID)
     if (!clientId) {
-        throw new Error('Client Id is missing from the configuration')
+        throw new KeeperStorageError('Client Id is missing from the configuration')
     }
     const ownerPublicKey = await storage.getBytes(KEY_OWNER_PUBLIC_KEY)
     if (!ownerPublicKey) {
-        throw new Error('Application owner public key is missing from the configuration')
+        throw new KeeperStorageError('Application owner public key is missing from the configuration')
     }
     const fileData = {
         name: file.name,
@@ -458,18 +503,18 @@ const prepareFileUploadPayload = async (storage: KeyValueStorage, ownerRecord: K
     const fileRecordUid = webSafe64FromBytes(platform.getRandomBytes(16))
     const encryptedFileRecord = await platform.encryptWithKey(fileRecordBytes, fileRecordKey)
     const encryptedFileRecordKey = await platform.publicEncrypt(fileRecordKey, ownerPublicKey)
-    const encryptedLinkKey = await platform.encrypt(fileRecordKey, ownerRecord.recordUid || KEY_APP_KEY)
+    const encryptedLinkKey = await platform.encrypt(fileRecordKey, ownerRecord.recordUid || KEY_APP_KEY, undefined, undefined, keyCache)
     const encryptedFileData = await platform.encryptWithKey(file.data, fileRecordKey)
 
     let fileRef = ownerRecord.data.fields.find(x => x.type == 'fileRef')
     if (fileRef) {
-        fileRef.value.push(fileRecordUid)
+        (fileRef.value || (fileRef.value = [])).push(fileRecordUid)
     } else {
         fileRef = {type: 'fileRef', value: [fileRecordUid]}
         ownerRecord.data.fields.push(fileRef)
     }
     const ownerRecordBytes = platform.stringToBytes(JSON.stringify(ownerRecord.data))
-    const encryptedOwnerRecord = await platform.encrypt(ownerRecordBytes, ownerRecord.recordUid || KEY_APP_KEY)
+    const encryptedOwnerRecord = await platform.encrypt(ownerRecordBytes, ownerRecord.recordUid || KEY_APP_KEY, undefined, undefined, keyCache)
 
     return {
         payload: {
@@ -488,13 +533,13 @@ const prepareFileUploadPayload = async (storage: KeyValueStorage, ownerRecord: K
     }
 }
 
-export const postFunction = async (url: string, transmissionKey: TransmissionKey, payload: EncryptedPayload, allowUnverifiedCertificate?: boolean): Promise<KeeperHttpResponse> => {
+export const postFunction = async (url: string, transmissionKey: TransmissionKey, payload: EncryptedPayload, allowUnverifiedCertificate?: boolean, timeout?: number, signal?: AbortSignal): Promise<KeeperHttpResponse> => {
     return platform.post(url, payload.payload,
         {
             PublicKeyId: transmissionKey.publicKeyId.toString(),
             TransmissionKey: platform.bytesToBase64(transmissionKey.encryptedKey),
             Authorization: `Signature ${platform.bytesToBase64(payload.signature)}`
-        }, allowUnverifiedCertificate)
+        }, allowUnverifiedCertificate, timeout, signal)
 }
 
 export const generateTransmissionKey = async (storage: KeyValueStorage): Promise<TransmissionKey> => {
@@ -503,7 +548,7 @@ export const generateTransmissionKey = async (storage: KeyValueStorage): Promise
     const keyNumber = keyNumberString ? Number(keyNumberString) : 7
     const keeperPublicKey = keeperPublicKeys[keyNumber]
     if (!keeperPublicKey) {
-        throw new Error(`Key number ${keyNumber} is not supported`)
+        throw new KeeperCryptoError(`Key number ${keyNumber} is not supported`)
     }
     const encryptedKey = await platform.publicEncrypt(transmissionKey, keeperPublicKeys[keyNumber])
     return {
@@ -513,50 +558,183 @@ export const generateTransmissionKey = async (storage: KeyValueStorage): Promise
     }
 }
 
-const encryptAndSignPayload = async (storage: KeyValueStorage, transmissionKey: TransmissionKey, payload: GetPayload | UpdatePayload | FileUploadPayload): Promise<EncryptedPayload> => {
+const encryptAndSignPayload = async (storage: KeyValueStorage, transmissionKey: TransmissionKey, payload: GetPayload | UpdatePayload | FileUploadPayload, keyCache?: KeyCache): Promise<EncryptedPayload> => {
     const payloadBytes = platform.stringToBytes(JSON.stringify(payload))
     const encryptedPayload = await platform.encryptWithKey(payloadBytes, transmissionKey.key)
     const signatureBase = new Uint8Array(transmissionKey.encryptedKey.length + encryptedPayload.length)
     signatureBase.set(transmissionKey.encryptedKey, 0)
     signatureBase.set(encryptedPayload, transmissionKey.encryptedKey.length)
-    const signature = await platform.sign(signatureBase, KEY_PRIVATE_KEY, storage)
+    const signature = await platform.sign(signatureBase, KEY_PRIVATE_KEY, storage, keyCache)
     return {payload: encryptedPayload, signature}
 }
+const getRetryAfter = (headers: any): number | undefined => {
+    // node returns a plain object with lowercase names, fetch returns Headers
+    const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after']
+    if (!value) {
+        return undefined
+    }
+    const seconds = Number(value)
+    if (!isNaN(seconds)) {
+        return seconds * 1000
+    }
+    const date = Date.parse(value)
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+const getRetryDelay = (policy: typeof defaultRetryPolicy, attempt: number, headers?: any): number => {
+    const retryAfter = getRetryAfter(headers)
+    if (retryAfter !== undefined) {
+        return Math.min(retryAfter, policy.maxDelay)
+    }
+    const delay = Math.min(policy.initialDelay * Math.pow(policy.backoffFactor, attempt - 1), policy.maxDelay)
+    return policy.jitter ? Math.floor(Math.random() * delay) : delay
+}
+
+const getOptionsLogger = (options: SecretManagerOptions): Logger => options.logger || getLogger()
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new KeeperAbortError())
+        return
+    }
+    const onAbort = () => {
+        clearTimeout(timer)
+        reject(new KeeperAbortError())
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, {once: true})
+})
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) {
+        throw new KeeperAbortError()
+    }
+}
+
+// private key bytes are not available when the storage keeps keys as non-extractable CryptoKey objects
+const getOfflineCacheParams = async (options: SecretManagerOptions, path: string, payload: AnyPayload): Promise<{ entryId: string, privateKey: Uint8Array } | undefined> => {
+    if (!options.offlineCache || !offlineCacheRoutes.includes(path)) {
+        return undefined
+    }
+    const clientId = await options.storage.getString(KEY_CLIENT_ID)
+    const privateKey = await options.storage.getBytes(KEY_PRIVATE_KEY)
+    if (!clientId || !(privateKey instanceof Uint8Array)) {
+        getOptionsLogger(options).debug('Offline cache is not available for the configuration', {route: path})
+        return undefined
+    }
+    return {entryId: await getOfflineCacheEntryId(clientId, path, payload as GetPayload), privateKey}
+}
+
+const saveOfflineCache = async (options: SecretManagerOptions, path: string, payload: AnyPayload, data: Uint8Array) => {
+    try {
+        const params = await getOfflineCacheParams(options, path, payload)
+        if (params) {
+            await options.offlineCache!.save(params.entryId, await encryptOfflineCacheEntry(params.privateKey, data))
+        }
+    } catch (e: Error | any) {
+        getOptionsLogger(options).warn(`Unable to save the offline cache: ${e.constructor.name}, ${e.message}`, {route: path, error: e.constructor.name})
+    }
+}
+
+const loadOfflineCache = async (options: SecretManagerOptions, path: string, payload: AnyPayload): Promise<Uint8Array | undefined> => {
+    try {
+        const params = await getOfflineCacheParams(options, path, payload)
+        const entry = params && await options.offlineCache!.load(params.entryId)
+        return entry && await decryptOfflineCacheEntry(params!.privateKey, entry, options.offlineCache!.maxAge)
+    } catch (e: Error | any) {
+        getOptionsLogger(options).warn(`Unable to load the offline cache: ${e.constructor.name}, ${e.message}`, {route: path, error: e.constructor.name})
+        return undefined
+    }
+}
+
+// the server may have applied a change before the connection failed or a gateway error was returned,
+// so only the reads are sent again - a throttled change was rejected and is safe to retry
+const idempotentRoutes = ['get_secret', 'get_folders']
+
 const postQuery = async (options: SecretManagerOptions, path: string, payload: AnyPayload): Promise<Uint8Array> => {
     const hostName = await options.storage.getString(KEY_HOSTNAME)
     if (!hostName) {
-        throw new Error('hostname is missing from the configuration')
+        throw new KeeperStorageError('hostname is missing from the configuration')
     }
     const url = `https://${hostName}/api/rest/sm/v1/${path}`
+    const policy = {...defaultRetryPolicy, ...options.retryPolicy}
+    let attempt = 0
+    let keyRotations = 0
     while (true) {
+        throwIfAborted(options.signal)
+        attempt++
         const transmissionKey = await generateTransmissionKey(options.storage)
-        const encryptedPayload = await encryptAndSignPayload(options.storage, transmissionKey, payload)
-        const response = await (options.queryFunction || postFunction)(url, transmissionKey, encryptedPayload, options.allowUnverifiedCertificate)
+        const encryptedPayload = await encryptAndSignPayload(options.storage, transmissionKey, payload, options.keyCache)
+        let response: KeeperHttpResponse
+        try {
+            response = await (options.queryFunction || postFunction)(url, transmissionKey, encryptedPayload, options.allowUnverifiedCertificate, policy.timeout, options.signal)
+        } catch (e) {
+            throwIfAborted(options.signal)
+            // network level failure - connection reset, timeout, DNS etc.
+            if (attempt >= policy.maxAttempts || !idempotentRoutes.includes(path)) {
+                const cachedData = await loadOfflineCache(options, path, payload)
+                if (cachedData) {
+                    getOptionsLogger(options).warn(`Request to ${path} failed, using offline cache`, {route: path, error: (e as Error)?.message})
+                    return cachedData
+                }
+                throw e
+            }
+            const delay = getRetryDelay(policy, attempt)
+            getOptionsLogger(options).debug(`Request to ${path} failed, retrying in ${delay} ms`, {route: path, attempt, delay, error: (e as Error)?.message})
+            await sleep(delay, options.signal)
+            continue
+        }
         if (response.statusCode !== 200) {
-            let errorMessage
+            let responseBody: string | undefined
+            let errorObj: KeeperErrorResponse | undefined
             if (response.data) {
-                errorMessage = platform.bytesToString(response.data.slice(0, 1000))
+                responseBody = platform.bytesToString(response.data.slice(0, 1000))
                 try {
-                    const errorObj: KeeperError = JSON.parse(errorMessage)
-                    if (errorObj.error === 'key') {
-                        await options.storage.saveString(KEY_SERVER_PUBLIC_KEY_ID, errorObj.key_id!.toString())
-                        continue
-                    }
+                    errorObj = JSON.parse(responseBody)
                 } catch {
                 }
-            } else {
-                errorMessage = `unknown ksm error, code ${response.statusCode}`
             }
-            throw new Error(errorMessage)
+            const details = {
+                route: path,
+                recordUid: 'recordUid' in payload ? payload.recordUid : undefined,
+                folderUid: 'folderUid' in payload ? payload.folderUid : undefined
+            }
+            if (errorObj?.error === 'key') {
+                if (++keyRotations > policy.maxKeyRotations) {
+                    throw new KeeperServerError(`Server requested too many public key changes (${keyRotations - 1}), last key id ${errorObj.key_id}`, {
+                        ...details,
+                        statusCode: response.statusCode,
+                        resultCode: errorObj.error
+                    })
+                }
+                getOptionsLogger(options).debug(`Server requested public key ${errorObj.key_id}`, {route: path, keyId: errorObj.key_id})
+                await options.storage.saveString(KEY_SERVER_PUBLIC_KEY_ID, errorObj.key_id!.toString())
+                continue
+            }
+            const error = createServerError(response.statusCode, errorObj, responseBody, details)
+            const retryable = error instanceof KeeperThrottledError
+                || (idempotentRoutes.includes(path) && policy.retryableStatusCodes.includes(response.statusCode))
+            if (retryable && attempt < policy.maxAttempts) {
+                const delay = getRetryDelay(policy, attempt, response.headers)
+                getOptionsLogger(options).debug(`Request to ${path} failed with code ${response.statusCode}, retrying in ${delay} ms`, {route: path, attempt, delay, statusCode: response.statusCode})
+                await sleep(delay, options.signal)
+                continue
+            }
+            throw error
         }
-        return response.data && response.data.length > 0
-            ? platform.decryptWithKey(response.data, transmissionKey.key)
+        const responseData = response.data && response.data.length > 0
+            ? await platform.decryptWithKey(response.data, transmissionKey.key)
             : new Uint8Array()
+        await saveOfflineCache(options, path, payload, responseData)
+        return responseData
     }
 }
 
-const decryptRecord = async (record: SecretsManagerResponseRecord, storage?: KeyValueStorage): Promise<KeeperRecord> => {
-    const decryptedRecord = await platform.decrypt(platform.base64ToBytes(record.data), record.recordUid || KEY_APP_KEY, storage)
+const decryptRecord = async (record: SecretsManagerResponseRecord, logger: Logger, storage?: KeyValueStorage, keyCache?: KeyCache): Promise<KeeperRecord> => {
+    const decryptedRecord = await platform.decrypt(platform.base64ToBytes(record.data), record.recordUid || KEY_APP_KEY, storage, undefined, keyCache)
     const keeperRecord: KeeperRecord = {
         recordUid: record.recordUid,
         data: JSON.parse(platform.bytesToString(decryptedRecord)),
@@ -569,8 +747,8 @@ const decryptRecord = async (record: SecretsManagerResponseRecord, storage?: Key
         keeperRecord.files = []
         for (const file of record.files) {
             try {
-                await platform.unwrap(platform.base64ToBytes(file.fileKey), file.fileUid, record.recordUid || KEY_APP_KEY)
-                const decryptedFile = await platform.decrypt(platform.base64ToBytes(file.data), file.fileUid)
+                await platform.unwrap(platform.base64ToBytes(file.fileKey), file.fileUid, record.recordUid || KEY_APP_KEY, undefined, undefined, undefined, keyCache)
+                const decryptedFile = await platform.decrypt(platform.base64ToBytes(file.data), file.fileUid, undefined, undefined, keyCache)
                 keeperRecord.files.push({
                     fileUid: file.fileUid,
                     data: JSON.parse(platform.bytesToString(decryptedFile)),
@@ -578,7 +756,9 @@ const decryptRecord = async (record: SecretsManagerResponseRecord, storage?: Key
                     thumbnailUrl: file.thumbnailUrl
                 })
             } catch (e: Error | any) {
-                console.error(`File ${file.fileUid} skipped due to error: ${e.constructor.name}, ${e.message}`)
+                keeperRecord.errors = keeperRecord.errors || []
+                keeperRecord.errors.push({uid: file.fileUid, kind: 'file', reason: `${e.constructor.name}, ${e.message}`, recordUid: record.recordUid})
+                logger.error(`File ${file.fileUid} skipped due to error: ${e.constructor.name}, ${e.message}`, {recordUid: record.recordUid, fileUid: file.fileUid, error: e.constructor.name})
             }
         }
     }
@@ -590,15 +770,18 @@ const decryptRecord = async (record: SecretsManagerResponseRecord, storage?: Key
 
 const fetchAndDecryptSecrets = async (options: SecretManagerOptions, queryOptions?: QueryOptions): Promise<{ secrets: KeeperSecrets, justBound: boolean }> => {
     const storage = options.storage
-    const payload = await prepareGetPayload(storage, queryOptions)
+    const keyCache = options.keyCache
+    const logger = getOptionsLogger(options)
+    const payload = await prepareGetPayload(storage, queryOptions, keyCache)
     const responseData = await postQuery(options, 'get_secret', payload)
     const response = JSON.parse(platform.bytesToString(responseData)) as SecretsManagerResponse
 
     const records: KeeperRecord[] = []
+    const errors: KeeperItemError[] = []
     let justBound = false
     if (response.encryptedAppKey) {
         justBound = true
-        await platform.unwrap(platform.base64ToBytes(response.encryptedAppKey), KEY_APP_KEY, KEY_CLIENT_KEY, storage)
+        await platform.unwrap(platform.base64ToBytes(response.encryptedAppKey), KEY_APP_KEY, KEY_CLIENT_KEY, storage, undefined, undefined, keyCache)
         await storage.delete(KEY_CLIENT_KEY)
         await storage.saveString(KEY_OWNER_PUBLIC_KEY, response.appOwnerPublicKey!)
     }
@@ -606,37 +789,40 @@ const fetchAndDecryptSecrets = async (options: SecretManagerOptions, queryOption
         for (const record of response.records) {
             try {
                 if (record.recordKey) {
-                    await platform.unwrap(platform.base64ToBytes(record.recordKey), record.recordUid, KEY_APP_KEY, storage, true)
+                    await platform.unwrap(platform.base64ToBytes(record.recordKey), record.recordUid, KEY_APP_KEY, storage, true, undefined, keyCache)
                 }
-                const decryptedRecord = await decryptRecord(record, storage)
+                const decryptedRecord = await decryptRecord(record, logger, storage, keyCache)
                 records.push(decryptedRecord)
             } catch (e: Error | any) {
-                console.error(`Record ${record.recordUid} skipped due to error: ${e.constructor.name}, ${e.message}`)
+                errors.push({uid: record.recordUid, kind: 'record', reason: `${e.constructor.name}, ${e.message}`})
+                logger.error(`Record ${record.recordUid} skipped due to error: ${e.constructor.name}, ${e.message}`, {recordUid: record.recordUid, error: e.constructor.name})
             }
         }
     }
     if (response.folders) {
         for (const folder of response.folders) {
             try {
-                await platform.unwrap(platform.base64ToBytes(folder.folderKey), folder.folderUid, KEY_APP_KEY, storage, true)
+                await platform.unwrap(platform.base64ToBytes(folder.folderKey), folder.folderUid, KEY_APP_KEY, storage, true, undefined, keyCache)
                 for (const record of folder.records) {
                     try {
-                        await platform.unwrap(platform.base64ToBytes(record.recordKey), record.recordUid, folder.folderUid)
-                        const decryptedRecord = await decryptRecord(record)
+                        await platform.unwrap(platform.base64ToBytes(record.recordKey), record.recordUid, folder.folderUid, undefined, undefined, undefined, keyCache)
+                        const decryptedRecord = await decryptRecord(record, logger, undefined, keyCache)
                         decryptedRecord.folderUid = folder.folderUid
                         records.push(decryptedRecord)
                     } catch (e: Error | any) {
-                        console.error(`Record ${record.recordUid} in folder ${folder.folderUid} skipped due to error: ${e.constructor.name}, ${e.message}`)
+                        errors.push({uid: record.recordUid, kind: 'record', reason: `${e.constructor.name}, ${e.message}`, folderUid: folder.folderUid})
+                        logger.error(`Record ${record.recordUid} in folder ${folder.folderUid} skipped due to error: ${e.constructor.name}, ${e.message}`, {recordUid: record.recordUid, folderUid: folder.folderUid, error: e.constructor.name})
                     }
                 }
             } catch (e: Error | any) {
-                console.error(`Folder ${folder.folderUid} skipped due to error: ${e.constructor.name}, ${e.message}`)
+                errors.push({uid: folder.folderUid, kind: 'folder', reason: `${e.constructor.name}, ${e.message}`})
+                logger.error(`Folder ${folder.folderUid} skipped due to error: ${e.constructor.name}, ${e.message}`, {folderUid: folder.folderUid, error: e.constructor.name})
             }
         }
     }
     let appData
     if (response.appData) {
-        appData = JSON.parse(platform.bytesToString(await platform.decrypt(webSafe64ToBytes(response.appData), KEY_APP_KEY, storage)))
+        appData = JSON.parse(platform.bytesToString(await platform.decrypt(webSafe64ToBytes(response.appData), KEY_APP_KEY, storage, undefined, keyCache)))
     }
     const secrets: KeeperSecrets = {
         appData: appData,
@@ -649,6 +835,17 @@ const fetchAndDecryptSecrets = async (options: SecretManagerOptions, queryOption
     if (response.extra && Object.keys(response.extra).length > 0) {
         secrets.extra = response.extra
     }
+    for (const record of records) {
+        if (record.errors) {
+            errors.push(...record.errors)
+        }
+    }
+    if (errors.length > 0) {
+        if (queryOptions?.strict) {
+            throw new KeeperPartialResultError(errors)
+        }
+        secrets.errors = errors
+    }
     return {secrets, justBound}
 }
 
@@ -668,7 +865,8 @@ const getSharedFolderUid = (folders: SecretsManagerResponseFolder[], parent: str
 
 const fetchAndDecryptFolders = async (options: SecretManagerOptions): Promise<KeeperFolder[]> => {
     const storage = options.storage
-    const payload = await prepareGetPayload(storage)
+    const keyCache = options.keyCache
+    const payload = await prepareGetPayload(storage, undefined, keyCache)
     const responseData = await postQuery(options, 'get_folders', payload)
     const response = JSON.parse(platform.bytesToString(responseData)) as SecretsManagerResponse
     const folders: KeeperFolder[] = []
@@ -682,13 +880,13 @@ const fetchAndDecryptFolders = async (options: SecretManagerOptions): Promise<Ke
                 decryptedFolder.parentUid = folder.parent
                 const sharedFolderUid = getSharedFolderUid(response.folders, folder.parent)
                 if (!sharedFolderUid) {
-                    throw new Error('Folder data inconsistent - unable to locate shared folder')
+                    throw new KeeperCryptoError('Folder data inconsistent - unable to locate shared folder', {folderUid: folder.folderUid})
                 }
-                await platform.unwrap(platform.base64ToBytes(folder.folderKey), folder.folderUid, sharedFolderUid, storage, true, true)
-                decryptedData = await platform.decrypt(platform.base64ToBytes(folder.data), folder.folderUid, storage, true)
+                await platform.unwrap(platform.base64ToBytes(folder.folderKey), folder.folderUid, sharedFolderUid, storage, true, true, keyCache)
+                decryptedData = await platform.decrypt(platform.base64ToBytes(folder.data), folder.folderUid, storage, true, keyCache)
             } else {
-                await platform.unwrap(platform.base64ToBytes(folder.folderKey), folder.folderUid, KEY_APP_KEY, storage, true, true)
-                decryptedData = await platform.decrypt(platform.base64ToBytes(folder.data), folder.folderUid, storage, true)
+                await platform.unwrap(platform.base64ToBytes(folder.folderKey), folder.folderUid, KEY_APP_KEY, storage, true, true, keyCache)
+                decryptedData = await platform.decrypt(platform.base64ToBytes(folder.data), folder.folderUid, storage, true, keyCache)
             }
             decryptedFolder.name = JSON.parse(platform.bytesToString(decryptedData))['name']
             folders.push(decryptedFolder)
@@ -702,29 +900,32 @@ export const getClientId = async (clientKey: string): Promise<string> => {
     return platform.bytesToBase64(clientKeyHash)
 }
 
+// region prefixes of one time tokens and their hosts
+export const keeperRegions: { [region: string]: string } = {
+    US: 'keepersecurity.com',
+    EU: 'keepersecurity.eu',
+    AU: 'keepersecurity.com.au',
+    GOV: 'govcloud.keepersecurity.us',
+    JP: 'keepersecurity.jp',
+    CA: 'keepersecurity.ca'
+}
+
 export const initializeStorage = async (
     storage: KeyValueStorage,
     oneTimeToken: string,
-    hostName?: string | 'keepersecurity.com' | 'keepersecurity.eu' | 'keepersecurity.au'
+    hostName?: string | 'keepersecurity.com' | 'keepersecurity.eu' | 'keepersecurity.au',
+    keyCache?: KeyCache
       ) => {
     const tokenParts = oneTimeToken.split(':')
     let host, clientKey
     if (tokenParts.length === 1) {
         if (!hostName) {
-            throw new Error('The hostname must be present in the token or as a parameter')
+            throw new KeeperStorageError('The hostname must be present in the token or as a parameter')
         }
         host = hostName
         clientKey = oneTimeToken
     } else {
-        host = {
-            US: 'keepersecurity.com',
-            EU: 'keepersecurity.eu',
-            AU: 'keepersecurity.com.au',
-            GOV: 'govcloud.keepersecurity.us',
-            JP: 'keepersecurity.jp',
-            CA: 'keepersecurity.ca'
-
-        }[tokenParts[0].toUpperCase()]
+        host = keeperRegions[tokenParts[0].toUpperCase()]
         if (!host) {
             host = tokenParts[0]
         }
@@ -738,12 +939,16 @@ export const initializeStorage = async (
         if (existingClientId === clientId) {
             return  // the storage is already initialized
         }
-        throw new Error(`The storage is already initialized with a different client Id (${existingClientId})`)
+        throw new KeeperStorageError(`The storage is already initialized with a different client Id (${existingClientId})`)
+    }
+    const saveKeys = async () => {
+        await storage.saveString(KEY_HOSTNAME, host)
+        await storage.saveString(KEY_CLIENT_ID, clientId)
+        await platform.importKey(KEY_CLIENT_KEY, clientKeyBytes, storage, keyCache)
+        await platform.generatePrivateKey(KEY_PRIVATE_KEY, storage, keyCache)
     }
-    await storage.saveString(KEY_HOSTNAME, host)
-    await storage.saveString(KEY_CLIENT_ID, clientId)
-    await platform.importKey(KEY_CLIENT_KEY, clientKeyBytes, storage)
-    await platform.generatePrivateKey(KEY_PRIVATE_KEY, storage)
+    // storages that support batching write the whole configuration once
+    await (storage.batch ? storage.batch(saveKeys) : saveKeys())
 }
 
 export const getSecrets = async (options: SecretManagerOptions, recordsFilter?: string[]): Promise<KeeperSecrets> => {
@@ -753,22 +958,98 @@ export const getSecrets = async (options: SecretManagerOptions, recordsFilter?:
     return getSecrets2(options, queryOptions)
 }
 
+// with wipeKeysAfterFetch every call gets a key cache of its own,
+// so a call never wipes the keys that another call in flight is still using
+const callOptions = (options: SecretManagerOptions): SecretManagerOptions =>
+    options.wipeKeysAfterFetch ? {...options, keyCache: createKeyCache()} : options
+
+// zero-fills the keys of the call when wipeKeysAfterFetch is set
+const wipeItemKeys = (options: SecretManagerOptions) => {
+    if (options.wipeKeysAfterFetch) {
+        platform.cleanKeyCache(options.keyCache)
+    }
+}
+
+// record and folder keys must be in the cache before creating records and folders
+const needsKeysWarmUp = (options: SecretManagerOptions): boolean =>
+    !platform.hasKeysCached(options.keyCache)
+
+// warm up always goes to the server and keeps the keys of the call, a cached result wouldn't load them
+const warmUpOptions = (options: SecretManagerOptions): SecretManagerOptions =>
+    ({...options, wipeKeysAfterFetch: false, secretsCache: undefined})
+
+const invalidateSecretsCache = (options: SecretManagerOptions) => {
+    options.secretsCache?.invalidate()
+}
+
+// record, folder and file keys the secrets were decrypted with, none are left when wipeKeysAfterFetch is set
+const getItemKeys = (secrets: KeeperSecrets, keyCache: KeyCache): Record<string, any> => {
+    const keys: Record<string, any> = {}
+    const addKey = (keyId?: string) => {
+        const key = keyId && keyCache.get(keyId)
+        if (key) {
+            keys[keyId!] = copyKey(key)
+        }
+    }
+    for (const record of secrets.records) {
+        addKey(record.recordUid)
+        addKey(record.folderUid)
+        for (const file of record.files || []) {
+            addKey(file.fileUid)
+        }
+    }
+    return keys
+}
+
+// the keys of cached records are loaded back, other calls clean the key cache in the meantime
+const loadItemKeys = (keys: Record<string, any>, keyCache: KeyCache) => {
+    for (const keyId in keys) {
+        if (keyCache.get(keyId)) {
+            if (keys[keyId] instanceof Uint8Array) {
+                keys[keyId].fill(0)
+            }
+        } else {
+            keyCache.set(keyId, keys[keyId])
+        }
+    }
+}
+
 export const getSecrets2 = async (options: SecretManagerOptions, queryOptions?: QueryOptions): Promise<KeeperSecrets> => {
-    platform.cleanKeyCache()
-    const {secrets, justBound} = await fetchAndDecryptSecrets(options, queryOptions)
-    if (justBound) {
-        try {
-            await fetchAndDecryptSecrets(options, queryOptions)
-        } catch (e) {
-            console.error(e)
+    if (options.secretsCache) {
+        const keyCache = options.keyCache || defaultKeyCache
+        const fetchOptions = {...options, keyCache, secretsCache: undefined}
+        const cached = await options.secretsCache.get(queryOptions, async () => {
+            const secrets = await getSecrets2(fetchOptions, queryOptions)
+            return {secrets, keys: getItemKeys(secrets, keyCache)}
+        }, getOptionsLogger(options))
+        loadItemKeys(cached.keys, keyCache)
+        return cached.secrets
+    }
+    options = callOptions(options)
+    platform.cleanKeyCache(options.keyCache)
+    try {
+        const {secrets, justBound} = await fetchAndDecryptSecrets(options, queryOptions)
+        if (justBound) {
+            try {
+                await fetchAndDecryptSecrets(options, queryOptions)
+            } catch (e: Error | any) {
+                getOptionsLogger(options).error(`Unable to refresh secrets after binding: ${e.constructor.name}, ${e.message}`, {error: e.constructor.name})
+            }
         }
+        return secrets
+    } finally {
+        wipeItemKeys(options)
     }
-    return secrets
 }
 
 export const getFolders = async (options: SecretManagerOptions): Promise<KeeperFolder[]> => {
-    platform.cleanKeyCache()
-    return await fetchAndDecryptFolders(options)
+    options = callOptions(options)
+    platform.cleanKeyCache(options.keyCache)
+    try {
+        return await fetchAndDecryptFolders(options)
+    } finally {
+        wipeItemKeys(options)
+    }
 }
 
 // tryGetNotationResults returns a string list with all values specified by the notation or empty list on error.
@@ -777,9 +1058,9 @@ export const tryGetNotationResults = async (options: SecretManagerOptions, notat
     try {
         return await getNotationResults(options, notation)
     }
-    catch (e)
+    catch (e: Error | any)
     {
-        console.error(e)
+        getOptionsLogger(options).error(`Unable to get notation results: ${e.constructor.name}, ${e.message}`, {error: e.constructor.name})
     }
     return [] as string[]
 }
@@ -821,25 +1102,36 @@ export const tryGetNotationResults = async (options: SecretManagerOptions, notat
 // Use tryGetNotationResults() to just log errors and continue returning an empty string list on error.
 export const getNotationResults = async (options: SecretManagerOptions, notation: string): Promise<string[]> => {
     let result: string[] = []
+    // the value warnings are logged as info, the default logger prints them with console.log as it always did
+    const logger = getOptionsLogger(options)
 
     const parsedNotation = parseNotation(notation) // prefix, record, selector, footer
     if (parsedNotation.length < 3)
-        throw new Error(`Invalid notation ${notation}`)
+        throw new KeeperNotationError(`Invalid notation ${notation}`)
 
     if (parsedNotation[1].text == null)
-        throw new Error(`Invalid notation ${notation}`)
+        throw new KeeperNotationError(`Invalid notation ${notation}`)
     const recordToken = parsedNotation[1].text[0] // UID or Title
     if (parsedNotation[2].text == null)
-        throw new Error(`Invalid notation ${notation}`)
+        throw new KeeperNotationError(`Invalid notation ${notation}`)
     const selector = parsedNotation[2].text[0] // type|title|notes or file|field|custom_field
 
+    if (options.wipeKeysAfterFetch && selector.toLowerCase() == 'file') {
+        options = callOptions(options)
+        try {
+            return await getNotationResults({...options, wipeKeysAfterFetch: false}, notation)
+        } finally {
+            wipeItemKeys(options)
+        }
+    }
+
     // to minimize traffic - if it looks like a Record UID try to pull a single record
     let records: KeeperRecord[] = []
     if (/^[A-Za-z0-9_-]{22}$/.test(recordToken)) {
         const secrets = await getSecrets(options, [recordToken])
         records = secrets.records
         if (records.length > 1)
-            throw new Error(`Notation error - found multiple records with same UID '${recordToken}'`)
+            throw new KeeperNotationError(`Notation error - found multiple records with same UID '${recordToken}'`)
     }
 
     // If RecordUID is not found - pull all records and search by title
@@ -851,9 +1143,9 @@ export const getNotationResults = async (options: SecretManagerOptions, notation
     }
 
     if (records.length > 1)
-        throw new Error(`Notation error - multiple records match record '${recordToken}'`)
+        throw new KeeperNotationError(`Notation error - multiple records match record '${recordToken}'`)
     if (records.length < 1)
-        throw new Error(`Notation error - no records match record '${recordToken}'`)
+        throw new KeeperNotationError(`Notation error - no records match record '${recordToken}'`)
 
     const record = records[0]
     const parameter = parsedNotation[2].parameter != null ? parsedNotation[2].parameter[0] : ''
@@ -866,17 +1158,17 @@ export const getNotationResults = async (options: SecretManagerOptions, notation
         case 'notes': { if (record?.data?.notes != null) result.push(record.data.notes); break }
         case 'file': {
             if (parameter == null)
-                throw new Error(`Notation error - Missing required parameter: filename or file UID for files in record '${recordToken}'`)
+                throw new KeeperNotationError(`Notation error - Missing required parameter: filename or file UID for files in record '${recordToken}'`)
             if ((record?.files?.length || 0) < 1)
-                throw new Error(`Notation error - Record ${recordToken} has no file attachments.`)
+                throw new KeeperNotationError(`Notation error - Record ${recordToken} has no file attachments.`)
             let files = record.files!.filter(x => parameter == x?.data?.name || parameter == x.fileUid)
             // file searches do not use indexes and rely on unique file names or fileUid
             const numFiles = (files == null ? 0 : files.length)
             if (numFiles > 1)
-                throw new Error(`Notation error - Record ${recordToken} has multiple files matching the search criteria '${parameter}'`)
+                throw new KeeperNotationError(`Notation error - Record ${recordToken} has multiple files matching the search criteria '${parameter}'`)
             if (numFiles < 1)
-                throw new Error(`Notation error - Record ${recordToken} has no files matching the search criteria '${parameter}'`)
-            const contents = await downloadFile(files[0])
+                throw new KeeperNotationError(`Notation error - Record ${recordToken} has no files matching the search criteria '${parameter}'`)
+            const contents = await downloadFile(files[0], options.signal, options.keyCache)
             const text = webSafe64FromBytes(contents)
             result.push(text)
             break
@@ -884,29 +1176,29 @@ export const getNotationResults = async (options: SecretManagerOptions, notation
         case 'field':
         case 'custom_field': {
             if (parsedNotation[2].parameter == null)
-                throw new Error('Notation error - Missing required parameter for the field (type or label): ex. /field/type or /custom_field/MyLabel')
+                throw new KeeperNotationError('Notation error - Missing required parameter for the field (type or label): ex. /field/type or /custom_field/MyLabel')
 
             const fields = (selector.toLowerCase() == 'field' ? record.data.fields :
                             selector.toLowerCase() == 'custom_field' ? record.data.custom : null)
             if (!fields)
-                throw new Error(`Notation error - Expected /field or /custom_field but found /${selector}`)
+                throw new KeeperNotationError(`Notation error - Expected /field or /custom_field but found /${selector}`)
 
             const flds = fields.filter(x => parameter == x.type || parameter == x.label)
             if ((flds?.length || 0) > 1)
-                throw new Error(`Notation error - Record ${recordToken} has multiple fields matching the search criteria '${parameter}'`)
+                throw new KeeperNotationError(`Notation error - Record ${recordToken} has multiple fields matching the search criteria '${parameter}'`)
             if ((flds?.length || 0) < 1)
-                throw new Error(`Notation error - Record ${recordToken} has no fields matching the search criteria '${parameter}'`)
+                throw new KeeperNotationError(`Notation error - Record ${recordToken} has no fields matching the search criteria '${parameter}'`)
             const field = flds[0]
             //const fieldType = field?.type || ''
 
             const idx = tryParseInt(index1, -1) // -1 = full value
             // valid only if [] or missing - ex. /field/phone or /field/phone[]
             if (idx == -1 && !(parsedNotation[2].index1 == null || parsedNotation[2].index1[1] == '' || parsedNotation[2].index1[1] == '[]'))
-                throw new Error(`Notation error - Invalid field index ${idx}.`)
+                throw new KeeperNotationError(`Notation error - Invalid field index ${idx}.`)
 
             let values = (field?.value != null ? field.value as Object[] : [] as Object[])
             if (idx >= values.length)
-                throw new Error(`Notation error - Field index out of bounds ${idx} >= ${values.length} for field ${parameter}`)
+                throw new KeeperNotationError(`Notation error - Field index out of bounds ${idx} >= ${values.length} for field ${parameter}`)
             if (idx >= 0) // single index
                 values = [ values[idx] ]
 
@@ -923,7 +1215,7 @@ export const getNotationResults = async (options: SecretManagerOptions, notation
                 // ex. On a required `name` field only 'first' and 'last' properties are required but not 'middle'
                 // so missing property in a field value is not always an error
                 if (fldValue == null)
-                    console.log('Notation error - Empty field value for field ', parameter) // throw?
+                    logger.info(`Notation error - Empty field value for field ${parameter}`, {recordUid: record.recordUid}) // throw?
 
                 if (fullObjValue) {
                     res.push(typeof fldValue === 'string' ? fldValue as string : JSON.stringify(fldValue))
@@ -933,18 +1225,18 @@ export const getNotationResults = async (options: SecretManagerOptions, notation
                         const propValue = fldValue[propKey]
                         res.push(typeof propValue === 'string' ? propValue as string : JSON.stringify(propValue))
                     } else
-                    console.log(`Notation error - value object has no property '${objPropertyName}'`) // skip
+                    logger.info(`Notation error - value object has no property '${objPropertyName}'`, {recordUid: record.recordUid}) // skip
                 } else
-                    console.log(`Notation error - Cannot extract property '${objPropertyName}' from null value.`)
+                    logger.info(`Notation error - Cannot extract property '${objPropertyName}' from null value.`, {recordUid: record.recordUid})
             }
 
             if (res.length != values.length)
-                console.log(`Notation warning - extracted ${res.length} out of ${values.length} values for '${objPropertyName}' property.`)
+                logger.info(`Notation warning - extracted ${res.length} out of ${values.length} values for '${objPropertyName}' property.`, {recordUid: record.recordUid})
             if (res.length > 0)
                 result.push.apply(result, res)
             break
         }
-        default: { throw new Error(`Invalid notation ${notation}`) }
+        default: { throw new KeeperNotationError(`Invalid notation ${notation}`) }
     }
     return result
 }
@@ -972,80 +1264,111 @@ export const updateSecret = async (options: SecretManagerOptions, record: Keeper
 }
 
 export const updateSecret2 = async (options: SecretManagerOptions, record: KeeperRecord, updateOptions?: UpdateOptions): Promise<void> => {
-    const payload = await prepareUpdatePayload(options.storage, record, updateOptions)
+    const payload = await prepareUpdatePayload(options.storage, record, updateOptions, options.keyCache)
     await postQuery(options, 'update_secret', payload)
+    invalidateSecretsCache(options)
 }
 
 export const completeTransaction = async (options: SecretManagerOptions, recordUid: string, rollback: boolean = false): Promise<void> => {
     const payload = await prepareCompleteTransactionPayload(options.storage, recordUid)
     const route = (rollback ? "rollback_secret_update" : "finalize_secret_update")
     await postQuery(options, route, payload)
+    invalidateSecretsCache(options)
 }
 
 export const deleteSecret = async (options: SecretManagerOptions, recordUids: string[]): Promise<SecretsManagerDeleteResponse> => {
     const payload = await prepareDeletePayload(options.storage, recordUids)
     const responseData = await postQuery(options, 'delete_secret', payload)
+    invalidateSecretsCache(options)
     return JSON.parse(platform.bytesToString(responseData)) as SecretsManagerDeleteResponse
 }
 
 export const deleteFolder = async (options: SecretManagerOptions, folderUids: string[], forceDeletion?: boolean): Promise<SecretsManagerDeleteResponse> => {
     const payload = await prepareDeleteFolderPayload(options.storage, folderUids, forceDeletion)
     const responseData = await postQuery(options, 'delete_folder', payload)
+    invalidateSecretsCache(options)
     return JSON.parse(platform.bytesToString(responseData)) as SecretsManagerDeleteResponse
 }
 
 export const createSecret = async (options: SecretManagerOptions, folderUid: string, recordData: any): Promise<string> => {
-    if (!platform.hasKeysCached()) {
-        await getSecrets(options) // need to warm up keys cache before posting a record
+    options = callOptions(options)
+    if (needsKeysWarmUp(options)) {
+        await getSecrets(warmUpOptions(options)) // need to warm up keys cache before posting a record
+    }
+    try {
+        const payload = await prepareCreatePayload(options.storage, {folderUid: folderUid}, recordData, options.keyCache)
+        await postQuery(options, 'create_secret', payload)
+        invalidateSecretsCache(options)
+        return payload.recordUid
+    } finally {
+        wipeItemKeys(options)
     }
-    const payload = await prepareCreatePayload(options.storage, {folderUid: folderUid}, recordData)
-    await postQuery(options, 'create_secret', payload)
-    return payload.recordUid
 }
 
 export const createSecret2 = async (options: SecretManagerOptions, createOptions: CreateOptions, recordData: any): Promise<string> => {
-    if (!platform.hasKeysCached()) {
-        await getFolders(options) // need to warm up keys cache before posting a record
+    options = callOptions(options)
+    if (needsKeysWarmUp(options)) {
+        await getFolders(warmUpOptions(options)) // need to warm up keys cache before posting a record
+    }
+    try {
+        const payload = await prepareCreatePayload(options.storage, createOptions, recordData, options.keyCache)
+        await postQuery(options, 'create_secret', payload)
+        invalidateSecretsCache(options)
+        return payload.recordUid
+    } finally {
+        wipeItemKeys(options)
     }
-    const payload = await prepareCreatePayload(options.storage, createOptions, recordData)
-    await postQuery(options, 'create_secret', payload)
-    return payload.recordUid
 }
 
 export const createFolder = async (options: SecretManagerOptions, createOptions: CreateOptions, folderName: string): Promise<string> => {
-    if (!platform.hasKeysCached()) {
-        await getSecrets(options) // need to warm up keys cache before posting a record
+    options = callOptions(options)
+    if (needsKeysWarmUp(options)) {
+        await getSecrets(warmUpOptions(options)) // need to warm up keys cache before posting a record
+    }
+    try {
+        const payload = await prepareCreateFolderPayload(options.storage, createOptions, folderName, options.keyCache)
+        await postQuery(options, 'create_folder', payload)
+        return payload.folderUid
+    } finally {
+        wipeItemKeys(options)
     }
-    const payload = await prepareCreateFolderPayload(options.storage, createOptions, folderName)
-    await postQuery(options, 'create_folder', payload)
-    return payload.folderUid
 }
 
 export const updateFolder = async (options: SecretManagerOptions, folderUid: string, folderName: string): Promise<void> => {
-    if (!platform.hasKeysCached()) {
-        await getSecrets(options) // need to warm up keys cache before posting a record
+    options = callOptions(options)
+    if (needsKeysWarmUp(options)) {
+        await getSecrets(warmUpOptions(options)) // need to warm up keys cache before posting a record
+    }
+    try {
+        const payload = await prepareUpdateFolderPayload(options.storage, folderUid, folderName, options.keyCache)
+        await postQuery(options, 'update_folder', payload)
+    } finally {
+        wipeItemKeys(options)
     }
-    const payload = await prepareUpdateFolderPayload(options.storage, folderUid, folderName)
-    await postQuery(options, 'update_folder', payload)
 }
 
-export const downloadFile = async (file: KeeperFile): Promise<Uint8Array> => {
-    const fileResponse = await platform.get(file.url!, {})
-    return platform.decrypt(fileResponse.data, file.fileUid)
+export const downloadFile = async (file: KeeperFile, signal?: AbortSignal, keyCache?: KeyCache): Promise<Uint8Array> => {
+    const fileResponse = await platform.get(file.url!, {}, signal)
+    return platform.decrypt(fileResponse.data, file.fileUid, undefined, undefined, keyCache)
 }
 
-export const downloadThumbnail = async (file: KeeperFile): Promise<Uint8Array> => {
-    const fileResponse = await platform.get(file.thumbnailUrl!, {})
-    return platform.decrypt(fileResponse.data, file.fileUid)
+export const downloadThumbnail = async (file: KeeperFile, signal?: AbortSignal, keyCache?: KeyCache): Promise<Uint8Array> => {
+    const fileResponse = await platform.get(file.thumbnailUrl!, {}, signal)
+    return platform.decrypt(fileResponse.data, file.fileUid, undefined, undefined, keyCache)
 }
 
 export const uploadFile = async (options: SecretManagerOptions, ownerRecord: KeeperRecord, file: KeeperFileUpload): Promise<string> => {
-    const { payload, encryptedFileData } = await prepareFileUploadPayload(options.storage, ownerRecord, file)
+    const { payload, encryptedFileData } = await prepareFileUploadPayload(options.storage, ownerRecord, file, options.keyCache)
     const responseData = await postQuery(options, 'add_file', payload)
+    invalidateSecretsCache(options)
     const response = JSON.parse(platform.bytesToString(responseData)) as SecretsManagerAddFileResponse
-    const uploadResult = await platform.fileUpload(response.url, JSON.parse(response.parameters), encryptedFileData)
+    const uploadResult = await platform.fileUpload(response.url, JSON.parse(response.parameters), encryptedFileData, options.signal, getOptionsLogger(options))
     if (uploadResult.statusCode !== response.successStatusCode) {
-        throw new Error(`Upload failed (${uploadResult.statusMessage}), code ${uploadResult.statusCode}`)
+        throw new KeeperServerError(`Upload failed (${uploadResult.statusMessage}), code ${uploadResult.statusCode}`, {
+            statusCode: uploadResult.statusCode,
+            route: 'add_file',
+            recordUid: ownerRecord.recordUid
+        })
     }
     return payload.fileRecordUid
 }
@@ -1059,6 +1382,7 @@ export const addCustomField = (record: KeeperRecord, field: KeeperRecordField):
 export class KeeperRecordField {
     type: string = ''
     label?: string
+    value?: any[]       // the field classes narrow it to the type of their values
 }
 
 export class LoginField extends KeeperRecordField {
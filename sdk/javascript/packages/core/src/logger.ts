@@ -0,0 +1,38 @@
+// Structured context passed along with log messages.
+// The SDK only ever logs UIDs, routes, counters and error names/messages - never record data,
+// field values, keys or other secret material.
+export type LogContext = {
+    [key: string]: string | number | boolean | undefined
+}
+
+export type Logger = {
+    debug(message: string, context?: LogContext): void
+    info(message: string, context?: LogContext): void
+    warn(message: string, context?: LogContext): void
+    error(message: string, context?: LogContext): void
+}
+
+// default logger - writes to the console like the SDK always did, debug messages are dropped
+export const consoleLogger: Logger = {
+    debug: () => {},
+    info: message => console.log(message),
+    warn: message => console.warn(message),
+    error: message => console.error(message)
+}
+
+// drops everything
+export const silentLogger: Logger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+}
+
+let logger: Logger = consoleLogger
+
+// sets the process wide logger, used when SecretManagerOptions.logger is not provided
+export const setLogger = (newLogger?: Logger) => {
+    logger = newLogger || consoleLogger
+}
+
+export const getLogger = (): Logger => logger
@@ -0,0 +1,128 @@
+import {inMemoryStorage, KeyValueStorage, parseJsonConfig} from "../platform";
+import {KeeperStorageError} from "../errors";
+import {localConfigStorage} from "./localConfigStorage";
+import * as fs from 'fs';
+
+export type EnvConfigOptions = {
+    variable?: string       // base64 or JSON config, KSM_CONFIG by default
+    prefix?: string         // prefix of the variables with individual values, KSM_ by default
+    env?: { [name: string]: string | undefined }     // process.env by default
+    // keeps the changes made by the SDK, ex. after binding or server public key change -
+    // a config file name, read over the environment on the next start,
+    // or a callback receiving the whole config, the callback is write-only - feed the config back through the environment
+    persist?: string | ((config: any) => void | Promise<void>)
+}
+
+// config key and the name of its variable without the prefix
+const envVariables = {
+    hostname: 'HOSTNAME',
+    clientId: 'CLIENT_ID',
+    privateKey: 'PRIVATE_KEY',
+    appKey: 'APP_KEY',
+    clientKey: 'CLIENT_KEY',
+    appOwnerPublicKey: 'APP_OWNER_PUBLIC_KEY',
+    serverPublicKeyId: 'SERVER_PUBLIC_KEY_ID'
+}
+
+const readEnvConfig = (options: EnvConfigOptions): any => {
+    const env = options.env || process.env
+    const variable = options.variable || 'KSM_CONFIG'
+    const prefix = options.prefix ?? 'KSM_'
+    const variableName = (key: string) => prefix + envVariables[key]
+
+    const configValue = env[variable]
+    if (configValue) {
+        let config: any
+        try {
+            config = parseJsonConfig(configValue)
+        } catch (e) {
+            throw new KeeperStorageError(`${variable} is not a valid JSON or base64 encoded JSON configuration`, {cause: e})
+        }
+        const missingKeys = ['hostname', 'clientId', 'privateKey'].filter(key => !config[key])
+        if (!config.appKey && !config.clientKey) {
+            missingKeys.push('appKey')
+        }
+        if (missingKeys.length > 0) {
+            throw new KeeperStorageError(`${variable} configuration is missing ${missingKeys.join(', ')}`)
+        }
+        return config
+    }
+
+    const config = {}
+    for (const key of Object.keys(envVariables)) {
+        const value = env[variableName(key)]
+        if (value) {
+            config[key] = value
+        }
+    }
+    if (Object.keys(config).length === 0) {
+        throw new KeeperStorageError(`Configuration is not found in the environment, set ${variable} or ${['hostname', 'clientId', 'privateKey', 'appKey'].map(variableName).join(', ')}`)
+    }
+    const missingVariables = ['hostname', 'clientId', 'privateKey'].filter(key => !config[key]).map(variableName)
+    if (!config['appKey'] && !config['clientKey']) {
+        missingVariables.push(variableName('appKey'))
+    }
+    if (missingVariables.length > 0) {
+        throw new KeeperStorageError(`Missing environment variables: ${missingVariables.join(', ')}`)
+    }
+    return config
+}
+
+// the changes persisted by the previous runs, the file is ignored when the environment holds the config of another client
+const readPersistedConfig = (fileName: string, clientId: string): any | undefined => {
+    let config: any
+    try {
+        config = JSON.parse(fs.readFileSync(fileName).toString())
+    } catch (e: Error | any) {
+        if (e.code === 'ENOENT') {
+            return undefined
+        }
+        throw new KeeperStorageError(`Unable to read the persisted configuration ${fileName}: ${e.message}`, {cause: e})
+    }
+    return config.clientId === clientId ? config : undefined
+}
+
+// Reads the configuration from the environment, either a single base64/JSON variable or one variable per value.
+// Throws KeeperStorageError naming the missing values. Changes are kept in memory unless persist is set.
+export const envConfigStorage = (options: EnvConfigOptions = {}): KeyValueStorage => {
+    const envConfig = readEnvConfig(options)
+    const configData = (typeof options.persist === 'string' && readPersistedConfig(options.persist, envConfig.clientId)) || envConfig
+    const storage = inMemoryStorage(configData)
+    let persistStorage: KeyValueStorage | undefined
+
+    const persist = async (deletedKey?: string) => {
+        if (!options.persist) {
+            return
+        }
+        if (typeof options.persist === 'function') {
+            await options.persist(JSON.parse(JSON.stringify(configData)))
+            return
+        }
+        const file = persistStorage || (persistStorage = localConfigStorage(options.persist))
+        await file.batch!(async () => {
+            for (const key of Object.keys(configData)) {
+                await file.saveString(key, configData[key])
+            }
+            if (deletedKey) {
+                await file.delete(deletedKey)
+            }
+        })
+    }
+
+    return {
+        getString: storage.getString,
+        saveString: async (key, value) => {
+            await storage.saveString(key, value)
+            await persist()
+        },
+        getBytes: storage.getBytes,
+        saveBytes: async (key, value) => {
+            await storage.saveBytes(key, value)
+            await persist()
+        },
+        delete: async (key) => {
+            await storage.delete(key)
+            await persist(key)
+        }
+    }
+}
@@ -6,7 +6,19 @@ connectPlatform(nodePlatform)
 initialize()
 
 export * from '../keeper'
+export * from '../secretsManager'
+export * from '../secretsCache'
+export * from '../offlineCache'
+export * from '../config'
+export * from '../profiles'
+export * from '../recordTypes'
+export * from '../recordBuilder'
+export * from '../recordUpdates'
 export * from '../platform'
+export * from '../errors'
+export * from '../logger'
 export * from '../notation'
 export {getTotpCode, generatePassword} from '../utils'
 export * from './localConfigStorage'
+export * from './envConfigStorage'
+export * from './keychainStorage'
@@ -0,0 +1,193 @@
+import {KeyValueStorage, platform} from "../platform";
+import {KeeperStorageError} from "../errors";
+import {encryptedFileStorage, localConfigStorage, PassphraseProvider} from "./localConfigStorage";
+import {spawn} from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// OS secret store, implement it to use a store that is not supported out of the box, ex. macOS keychain
+export type KeyringBackend = {
+    get(service: string, account: string): Promise<string | undefined>
+    set(service: string, account: string, secret: string): Promise<void>
+    delete(service: string, account: string): Promise<void>
+}
+
+const KEYRING_SERVICE = 'Keeper Secrets Manager'
+
+// keys kept in the keyring, including the ones of profiles, ex. profiles/dev/privateKey
+const sensitiveKeys = ['privateKey', 'appKey', 'clientKey']
+
+type SecretToolResult = {
+    code: number | null
+    stdout: string
+    stderr: string
+}
+
+const runSecretTool = (command: string, args: string[], input?: string): Promise<SecretToolResult> => new Promise((resolve, reject) => {
+    const child = spawn(command, args)
+    let stdout = ''
+    let stderr = ''
+    child.stdout.on('data', data => stdout += data)
+    child.stderr.on('data', data => stderr += data)
+    child.on('error', e => reject(new KeeperStorageError(`Unable to run secret-tool, it is a part of libsecret-tools: ${e.message}`, {cause: e})))
+    child.on('close', code => resolve({code, stdout, stderr}))
+    child.stdin.end(input)
+})
+
+const secretToolError = (operation: string, account: string, result: SecretToolResult) =>
+    new KeeperStorageError(`Unable to ${operation} ${account} in the Secret Service: ${result.stderr.trim() || `secret-tool exited with ${result.code}`}`)
+
+// Linux Secret Service (GNOME Keyring, KWallet) through the secret-tool command, looked up in PATH unless a path is given
+export const secretServiceKeyring = (command: string = 'secret-tool'): KeyringBackend => ({
+    get: async (service, account) => {
+        const result = await runSecretTool(command, ['lookup', 'service', service, 'account', account])
+        // secret-tool exits with 1 and no message when the secret does not exist
+        if (result.code !== 0 && result.stderr.trim()) {
+            throw secretToolError('read', account, result)
+        }
+        return result.stdout || undefined
+    },
+    set: async (service, account, secret) => {
+        const result = await runSecretTool(command, ['store', `--label=${service} ${account}`, 'service', service, 'account', account], secret)
+        if (result.code !== 0) {
+            throw secretToolError('save', account, result)
+        }
+    },
+    delete: async (service, account) => {
+        const result = await runSecretTool(command, ['clear', 'service', service, 'account', account])
+        if (result.code !== 0 && result.stderr.trim()) {
+            throw secretToolError('delete', account, result)
+        }
+    }
+})
+
+// Keyring in a file readable by the owner only, for machines without a secret store (ex. headless or CI).
+// The file is encrypted when a passphrase provider is set.
+export const fileKeyring = (fileName: string = path.join(os.homedir(), '.keeper', 'ksm-keyring.json'), passphraseProvider?: PassphraseProvider): KeyringBackend => {
+    let storage: KeyValueStorage | undefined
+    const getStorage = (): KeyValueStorage => {
+        if (!storage) {
+            fs.mkdirSync(path.dirname(fileName), {recursive: true, mode: 0o700})
+            storage = passphraseProvider ? encryptedFileStorage(fileName, passphraseProvider) : localConfigStorage(fileName)
+        }
+        return storage
+    }
+    // slashes are escaped, so the entries are not split into nested objects
+    const entryKey = (service: string, account: string) => `${encodeURIComponent(service)}/${encodeURIComponent(account)}`
+    return {
+        get: (service, account) => getStorage().getString(entryKey(service, account)),
+        set: (service, account, secret) => getStorage().saveString(entryKey(service, account), secret),
+        delete: (service, account) => getStorage().delete(entryKey(service, account))
+    }
+}
+
+const isCommandAvailable = (command: string): boolean =>
+    (process.env.PATH || '').split(path.delimiter).some(directory => directory && fs.existsSync(path.join(directory, command)))
+
+// Secret Service when it can be reached. There is no fallback, the file keyring keeps the keys
+// unencrypted unless a passphrase is set, so it is used only when passed explicitly.
+export const defaultKeyring = (): KeyringBackend => {
+    if (process.platform === 'linux' && process.env.DBUS_SESSION_BUS_ADDRESS && isCommandAvailable('secret-tool')) {
+        return secretServiceKeyring()
+    }
+    throw new KeeperStorageError('OS secret store is not available, pass a keyring backend, ex. fileKeyring(fileName, passphraseProvider)')
+}
+
+// Keeps privateKey, appKey and clientKey in the keyring and the other values in the JSON config file.
+// The keys of an existing config file are moved to the keyring when they are first read.
+// Within batch() the keyring changes are held back and written when the outermost batch completes, right before the file.
+// Keyrings have no transactions, so a keyring write that fails then leaves the keyring writes made before it in place.
+export const keychainStorage = (configName: string, keyring: KeyringBackend = defaultKeyring(), service: string = KEYRING_SERVICE): KeyValueStorage => {
+    const file = localConfigStorage(configName)
+    const configPath = path.resolve(configName)
+    const account = (key: string) => `${configPath}#${key}`
+    const isSensitive = (key: string) => sensitiveKeys.includes(key.split('/').pop()!)
+
+    // keyring changes of the current batch, undefined marks a deleted secret
+    let batchSecrets: Record<string, string | undefined> | undefined
+
+    const getKeyringSecret = async (key: string): Promise<string | undefined> =>
+        batchSecrets && key in batchSecrets ? batchSecrets[key] : keyring.get(service, account(key))
+
+    const saveKeyringSecret = async (key: string, secret: string | undefined) => {
+        if (batchSecrets) {
+            batchSecrets[key] = secret
+        } else if (secret === undefined) {
+            await keyring.delete(service, account(key))
+        } else {
+            await keyring.set(service, account(key), secret)
+        }
+    }
+
+    const removeFromFile = async (key: string) => {
+        if (await file.getString(key)) {
+            await file.delete(key)
+        }
+    }
+
+    const getSecret = async (key: string): Promise<string | undefined> => {
+        const secret = await getKeyringSecret(key)
+        if (secret) {
+            return secret
+        }
+        const fileSecret = await file.getString(key)
+        if (fileSecret) {
+            await saveKeyringSecret(key, fileSecret)
+            await file.delete(key)
+        }
+        return fileSecret
+    }
+
+    const saveSecret = async (key: string, secret: string) => {
+        await saveKeyringSecret(key, secret)
+        await removeFromFile(key)
+    }
+
+    return {
+        getString: key => isSensitive(key) ? getSecret(key) : file.getString(key),
+        saveString: (key, value) => isSensitive(key) ? saveSecret(key, value) : file.saveString(key, value),
+        getBytes: async key => {
+            if (!isSensitive(key)) {
+                return file.getBytes(key)
+            }
+            const secret = await getSecret(key)
+            return secret ? platform.base64ToBytes(secret) : undefined
+        },
+        saveBytes: (key, value) => isSensitive(key) ? saveSecret(key, platform.bytesToBase64(value)) : file.saveBytes(key, value),
+        delete: async key => {
+            if (isSensitive(key)) {
+                await saveKeyringSecret(key, undefined)
+                await removeFromFile(key)
+            } else {
+                await file.delete(key)
+            }
+        },
+        batch: async operations => {
+            // a failed nested batch discards its own changes only
+            if (batchSecrets) {
+                const secrets = {...batchSecrets}
+                try {
+                    return await file.batch!(operations)
+                } catch (e) {
+                    batchSecrets = secrets
+                    throw e
+                }
+            }
+            batchSecrets = {}
+            try {
+                return await file.batch!(async () => {
+                    const result = await operations()
+                    const secrets = batchSecrets!
+                    batchSecrets = undefined
+                    for (const key of Object.keys(secrets)) {
+                        await saveKeyringSecret(key, secrets[key])
+                    }
+                    return result
+                })
+            } finally {
+                batchSecrets = undefined
+            }
+        }
+    }
+}
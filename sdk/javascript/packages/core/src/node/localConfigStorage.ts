@@ -1,69 +1,311 @@
-import {EncryptedPayload, KeeperHttpResponse, KeyValueStorage, platform, TransmissionKey, inMemoryStorage} from "../platform";
+import {EncryptedPayload, KeeperHttpResponse, KeyValueStorage, platform, TransmissionKey, inMemoryStorage, jsonDocumentStorage, parseJsonConfig} from "../platform";
+import {KeeperAbortError, KeeperCryptoError, KeeperStorageError} from "../errors";
+import {OfflineCache} from "../offlineCache";
+import {getLogger} from "../logger";
 import * as fs from 'fs';
+import * as path from 'path';
+
+const LOCK_TIMEOUT = 10000       // ms to wait for another process to release the config file
+const STALE_LOCK_AGE = 30000     // ms after which the lock file of a crashed process is removed
+const LOCK_REFRESH_INTERVAL = 10000  // ms, the holder touches the lock file so it never looks stale
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// inter-process lock, the lock file is created exclusively and removed when the operation completes.
+// The holder keeps refreshing its modification time, only the lock of a crashed process gets stale.
+const withFileLock = async <T>(fileName: string, operation: () => Promise<T>): Promise<T> => {
+    const lockName = `${fileName}.lock`
+    const started = Date.now()
+    while (true) {
+        try {
+            fs.closeSync(fs.openSync(lockName, 'wx', 0o600))
+            break
+        } catch (e: Error | any) {
+            if (e.code !== 'EEXIST') {
+                throw new KeeperStorageError(`Unable to lock the configuration file ${fileName}: ${e.message}`, {cause: e})
+            }
+        }
+        try {
+            if (Date.now() - fs.statSync(lockName).mtimeMs > STALE_LOCK_AGE) {
+                fs.unlinkSync(lockName)
+                continue
+            }
+        } catch {
+            continue    // released in the meantime
+        }
+        if (Date.now() - started > LOCK_TIMEOUT) {
+            throw new KeeperStorageError(`Timed out waiting for the configuration file lock ${lockName}`)
+        }
+        await sleep(50)
+    }
+    const refresh = setInterval(() => {
+        try {
+            const now = new Date()
+            fs.utimesSync(lockName, now, now)
+        } catch {
+        }
+    }, LOCK_REFRESH_INTERVAL)
+    refresh.unref()
+    try {
+        return await operation()
+    } finally {
+        clearInterval(refresh)
+        try {
+            fs.unlinkSync(lockName)
+        } catch {
+        }
+    }
+}
+
+// the new content is written to a temporary file and renamed over the config, so a crash never leaves a partial file.
+// The temporary file is always created anew, a file left by a crashed writer could have a wider mode.
+const writeFileAtomic = (fileName: string, data: string | Uint8Array) => {
+    const tempName = `${fileName}.${process.pid}.tmp`
+    try {
+        fs.unlinkSync(tempName)
+    } catch {
+    }
+    const fd = fs.openSync(tempName, 'wx', 0o600)
+    try {
+        fs.writeFileSync(fd, data)
+        fs.fsyncSync(fd)
+    } finally {
+        fs.closeSync(fd)
+    }
+    try {
+        fs.renameSync(tempName, fileName)
+    } catch (e) {
+        fs.unlinkSync(tempName)
+        throw e
+    }
+}
+
+const warnIfWorldReadable = (fileName: string) => {
+    if (process.platform === 'win32') {
+        return
+    }
+    try {
+        if (fs.statSync(fileName).mode & 0o004) {
+            getLogger().warn(`The configuration file ${fileName} is readable by all users, it will be made readable by the owner only on the next save`, {fileName})
+        }
+    } catch {
+    }
+}
+
+// undefined if the file does not exist yet, the other errors are thrown so the file is never overwritten after a failed read
+const readFile = (fileName: string): string | undefined => {
+    try {
+        return fs.readFileSync(fileName).toString()
+    } catch (e: Error | any) {
+        if (e.code === 'ENOENT') {
+            return undefined
+        }
+        throw new KeeperStorageError(`Unable to read the configuration file ${fileName}: ${e.message}`, {cause: e})
+    }
+}
 
 export const localConfigStorage = (configName?: string): KeyValueStorage => {
+    if (!configName) {
+        return inMemoryStorage({})
+    }
 
     const readStorage = (): any => {
-        if (!configName) {
-            return {}
+        try {
+            return JSON.parse(readFile(configName) || '{}')
+        } catch (e) {
+            if (e instanceof KeeperStorageError) {
+                throw e
+            }
+            throw new KeeperStorageError(`Unable to parse the configuration file ${configName}`, {cause: e})
         }
+    }
+
+    // a file that can't be read is reported when the storage is used
+    let initialData: any
+    try {
+        initialData = readStorage()
+    } catch {
+    }
+
+    warnIfWorldReadable(configName)
+    return jsonDocumentStorage({
+        read: async () => readStorage(),
+        write: async data => writeFileAtomic(configName, JSON.stringify(data, null, 2)),
+        lock: operation => withFileLock(configName, operation)
+    }, initialData)
+}
+
+export type PassphraseProvider = () => string | Promise<string>
+
+export type EncryptedFileStorage = KeyValueStorage & {
+    // re-encrypts the file under the new passphrase
+    changePassphrase(newPassphraseProvider: PassphraseProvider): Promise<void>
+    // copies the values of a plain JSON or base64 encoded JSON config, ex. the content of a localConfigStorage file
+    importConfig(config: string): Promise<void>
+}
+
+type EncryptedConfigFile = {
+    version: number
+    kdf: 'PBKDF2-SHA256'
+    iterations: number
+    salt: string
+    data: string        // AES-GCM encrypted JSON config
+}
+
+// Config file encrypted at rest with AES-GCM under a key derived from the passphrase.
+// The passphrase is requested when the file is first read or written and the derived key is kept in memory.
+// The key is derived before the file is locked, the passphrase may be typed in by the user.
+export const encryptedFileStorage = (fileName: string, passphraseProvider: PassphraseProvider, iterations: number = 600000): EncryptedFileStorage => {
+    type DerivedKey = { salt: string, iterations: number, key: Uint8Array }
+    let derivedKey: DerivedKey | undefined
+
+    const deriveKey = async (provider: PassphraseProvider, salt: string, keyIterations: number): Promise<DerivedKey> => {
+        if (!platform.deriveKey) {
+            throw new KeeperCryptoError(`Unable to derive the key of the configuration file ${fileName}, the platform does not support key derivation`)
+        }
+        const key = await platform.deriveKey(await provider(), platform.base64ToBytes(salt), keyIterations)
+        return {salt, iterations: keyIterations, key}
+    }
+
+    const getKey = async (salt: string, keyIterations: number): Promise<Uint8Array> => {
+        if (!derivedKey || derivedKey.salt !== salt || derivedKey.iterations !== keyIterations) {
+            derivedKey = await deriveKey(passphraseProvider, salt, keyIterations)
+        }
+        return derivedKey.key
+    }
+
+    const newSalt = () => platform.bytesToBase64(platform.getRandomBytes(16))
+
+    // undefined if the file does not exist yet
+    const readEncryptedFile = (): EncryptedConfigFile | undefined => {
+        const content = readFile(fileName)
+        if (!content) {
+            return undefined
+        }
+        let encryptedFile: EncryptedConfigFile
         try {
-            return JSON.parse(fs.readFileSync(configName).toString())
+            encryptedFile = JSON.parse(content)
         } catch (e) {
+            throw new KeeperStorageError(`Unable to parse the configuration file ${fileName}`, {cause: e})
+        }
+        if (encryptedFile.kdf !== 'PBKDF2-SHA256' || !encryptedFile.salt || !encryptedFile.data) {
+            throw new KeeperStorageError(`${fileName} is not an encrypted configuration file, use importConfig to encrypt a plain configuration`)
+        }
+        return encryptedFile
+    }
+
+    const prepareKey = async () => {
+        const encryptedFile = readEncryptedFile()
+        if (encryptedFile) {
+            await getKey(encryptedFile.salt, encryptedFile.iterations)
+        } else if (!derivedKey) {
+            await getKey(newSalt(), iterations)
+        }
+    }
+
+    const read = async (): Promise<any> => {
+        const encryptedFile = readEncryptedFile()
+        if (!encryptedFile) {
             return {}
         }
+        const key = await getKey(encryptedFile.salt, encryptedFile.iterations)
+        let data: Uint8Array
+        try {
+            data = await platform.decryptWithKey(platform.base64ToBytes(encryptedFile.data), key)
+        } catch (e) {
+            derivedKey = undefined
+            throw new KeeperCryptoError(`Unable to decrypt the configuration file ${fileName}, the passphrase may be wrong`, {cause: e})
+        }
+        return JSON.parse(platform.bytesToString(data))
     }
 
-    const storageData = readStorage()
-    const storage: KeyValueStorage = inMemoryStorage(storageData)
+    const write = async (data: any): Promise<void> => {
+        if (!derivedKey) {
+            await getKey(newSalt(), iterations)
+        }
+        const encryptedData = await platform.encryptWithKey(platform.stringToBytes(JSON.stringify(data)), derivedKey!.key)
+        const encryptedFile: EncryptedConfigFile = {
+            version: 1,
+            kdf: 'PBKDF2-SHA256',
+            iterations: derivedKey!.iterations,
+            salt: derivedKey!.salt,
+            data: platform.bytesToBase64(encryptedData)
+        }
+        writeFileAtomic(fileName, JSON.stringify(encryptedFile, null, 2))
+    }
+
+    const lock = async <T>(operation: () => Promise<T>): Promise<T> => {
+        await prepareKey()
+        return withFileLock(fileName, operation)
+    }
+
+    warnIfWorldReadable(fileName)
+    const storage = jsonDocumentStorage({read, write, lock})
 
-    const saveStorage = (storage: any) => {
-        if (!configName) {
-            return
+    return {
+        ...storage,
+        changePassphrase: async newPassphraseProvider => {
+            const newKey = await deriveKey(newPassphraseProvider, newSalt(), iterations)
+            await lock(async () => {
+                const data = await read()
+                passphraseProvider = newPassphraseProvider
+                derivedKey = newKey
+                await write(data)
+            })
+        },
+        importConfig: async config => {
+            const configData = parseJsonConfig(config)
+            await storage.batch!(async () => {
+                for (const key of Object.keys(configData)) {
+                    await storage.saveString(key, configData[key])
+                }
+            })
         }
-        fs.writeFileSync(configName, JSON.stringify(storageData, null, 2))
     }
+}
 
+// keeps the offline cache entries as separate files readable by the owner only
+export const fileOfflineCache = (directory: string = '.', maxAge?: number): OfflineCache => {
+    const entryFileName = (entryId: string) => path.join(directory, `ksm-cache-${entryId}.dat`)
     return {
-        getString: storage.getString,
-        saveString: async (key, value) => {
-            await storage.saveString(key, value)
-            saveStorage(storage)
-            return Promise.resolve()
+        load: async entryId => {
+            try {
+                return fs.readFileSync(entryFileName(entryId))
+            } catch {
+                return undefined
+            }
         },
-        getBytes: storage.getBytes,
-        saveBytes: async (key, value) => {
-            await storage.saveBytes(key, value)
-            saveStorage(storage)
-            return Promise.resolve()
+        save: async (entryId, entry) => {
+            fs.mkdirSync(directory, {recursive: true, mode: 0o700})
+            writeFileAtomic(entryFileName(entryId), entry)
         },
-        delete: async (key) => {
-            await storage.delete(key)
-            saveStorage(storage)
-            return Promise.resolve()
-        }
+        maxAge: maxAge
     }
 }
 
-export const cachingPostFunction = async (url: string, transmissionKey: TransmissionKey, payload: EncryptedPayload): Promise<KeeperHttpResponse> => {
+// deprecated - replays the last response for any request, use SecretManagerOptions.offlineCache with fileOfflineCache
+export const cachingPostFunction = async (url: string, transmissionKey: TransmissionKey, payload: EncryptedPayload, allowUnverifiedCertificate?: boolean, timeout?: number, signal?: AbortSignal): Promise<KeeperHttpResponse> => {
     try {
         const response = await platform.post(url, payload.payload, {
             PublicKeyId: transmissionKey.publicKeyId.toString(),
             TransmissionKey: platform.bytesToBase64(transmissionKey.encryptedKey),
             Authorization: `Signature ${platform.bytesToBase64(payload.signature)}`
-        })
+        }, allowUnverifiedCertificate, timeout, signal)
         if (response.statusCode == 200) {
             fs.writeFileSync('cache.dat', Buffer.concat([transmissionKey.key, response.data]))
         }
         return response
     } catch (e) {
+        if (e instanceof KeeperAbortError) {
+            throw e
+        }
         let cachedData
         try {
             cachedData = fs.readFileSync('cache.dat')
         } catch {
         }
         if (!cachedData) {
-            throw new Error('Cached value does not exist')
+            throw new KeeperStorageError('Cached value does not exist')
         }
         transmissionKey.key = cachedData.slice(0, 32)
         return {
@@ -1,5 +1,6 @@
 import {KeeperSecrets} from './keeper'
 import {tryParseInt, webSafe64ToBytes} from './utils'
+import {KeeperNotationError} from './errors'
 
 type KeeperField = {
     type: string
@@ -10,17 +11,17 @@ type KeeperField = {
 export function getValue(secrets: KeeperSecrets, notation: string): any {
     const parsedNotation = parseNotation(notation, true) // prefix, record, selector, footer
     if (parsedNotation.length < 3)
-        throw Error(`Invalid notation ${notation}`)
+        throw new KeeperNotationError(`Invalid notation ${notation}`)
 
     if (parsedNotation[2].text == null)
-        throw Error(`Invalid notation ${notation}`)
+        throw new KeeperNotationError(`Invalid notation ${notation}`)
     const selector = parsedNotation[2].text[0] // type|title|notes or file|field|custom_field
     if (parsedNotation[1].text == null)
-        throw Error(`Invalid notation ${notation}`)
+        throw new KeeperNotationError(`Invalid notation ${notation}`)
     const recordToken = parsedNotation[1].text[0] // UID or Title
     const record = secrets.records.find(x => x.recordUid === recordToken || x.data.title === recordToken)
     if (!record)
-        throw Error(`Record '${recordToken}' not found`)
+        throw new KeeperNotationError(`Record '${recordToken}' not found`)
 
     const parameter = parsedNotation[2]?.parameter?.[0] ?? null
     const index1 = parsedNotation[2]?.index1?.[0] ?? null
@@ -32,14 +33,14 @@ export function getValue(secrets: KeeperSecrets, notation: string): any {
         case 'notes': return record.data.notes ?? ''
         case 'file': {
             if (parameter == null)
-                throw Error(`Notation error - Missing required parameter: filename or file UID for files in record '${recordToken}'`)
+                throw new KeeperNotationError(`Notation error - Missing required parameter: filename or file UID for files in record '${recordToken}'`)
             if ((record?.files?.length ?? 0) < 1)
-                throw Error(`Notation error - Record ${recordToken} has no file attachments.`)
+                throw new KeeperNotationError(`Notation error - Record ${recordToken} has no file attachments.`)
             let files = record.files ?? []
             files = files.filter(x => parameter == x.data?.name || parameter == x.data?.title || parameter == x.fileUid)
             // file searches do not use indexes and rely on unique file names or fileUid
             if ((files?.length ?? 0) < 1)
-                throw Error(`Notation error - Record ${recordToken} has no files matching the search criteria '${parameter}'`)
+                throw new KeeperNotationError(`Notation error - Record ${recordToken} has no files matching the search criteria '${parameter}'`)
 
             // legacy compat. mode
             return files[0]
@@ -54,27 +55,27 @@ export function getValue(secrets: KeeperSecrets, notation: string): any {
         case 'field':
         case 'custom_field': {
             if (parameter == null)
-                throw Error(`Notation error - Missing required parameter for the field (type or label): ex. /field/type or /custom_field/MyLabel`)
+                throw new KeeperNotationError(`Notation error - Missing required parameter for the field (type or label): ex. /field/type or /custom_field/MyLabel`)
 
             const fields = (selector.toLowerCase() == 'field' ? record.data.fields :
                 selector.toLowerCase() == 'custom_field' ? record.data.custom : null)
             if (!fields)
-                throw new Error(`Notation error - Expected /field or /custom_field but found /${selector}`)
+                throw new KeeperNotationError(`Notation error - Expected /field or /custom_field but found /${selector}`)
 
             // legacy compat mode - find first field only
             const field = fields.find(x => parameter === x.type || parameter === x.label)
             if (!field)
-                throw new Error(`Field ${parameter} not found in the record ${record.recordUid}`)
+                throw new KeeperNotationError(`Field ${parameter} not found in the record ${record.recordUid}`)
 
             // /<type|label>[index1][index2], ex. /url == /url[] == /url[][] == full value
             const idx = tryParseInt(index1 || '', -1) // -1 = full value
             // valid only if [] or missing - ex. /field/phone or /field/phone[]
             if (idx == -1 && !(parsedNotation[2].index1 == null || parsedNotation[2].index1[1] == '' || parsedNotation[2].index1[1] == '[]'))
-                throw new Error(`Notation error - Invalid field index ${idx}.`)
+                throw new KeeperNotationError(`Notation error - Invalid field index ${idx}.`)
 
             let values = (field?.value != null ? field.value as Object[] : [] as Object[])
             if (idx >= values.length)
-                throw new Error(`Notation error - Field index out of bounds ${idx} >= ${values.length} for field '${parameter}' in record '${record.recordUid}'`)
+                throw new KeeperNotationError(`Notation error - Field index out of bounds ${idx} >= ${values.length} for field '${parameter}' in record '${record.recordUid}'`)
             if (idx >= 0) // single index
                 values = [ values[idx] ]
 
@@ -108,12 +109,12 @@ export function getValue(secrets: KeeperSecrets, notation: string): any {
                     const propValue = values[0][propKey]
                     return propValue // legacy compatibility
                 } else
-                    throw Error(`Notation error - value object has no property '${objPropertyName}'`)
+                    throw new KeeperNotationError(`Notation error - value object has no property '${objPropertyName}'`)
             } else
-                throw Error(`Notation error - Cannot extract property '${objPropertyName}' from null value.`)
+                throw new KeeperNotationError(`Notation error - Cannot extract property '${objPropertyName}' from null value.`)
             return ''
         }
-        default: throw Error(`Invalid notation ${notation}`)
+        default: throw new KeeperNotationError(`Invalid notation ${notation}`)
     }
 }
 
@@ -149,7 +150,7 @@ function parseSubsection(text: string, pos: number, delimiters: string, escaped:
     if (!text || pos < 0 || pos >= text.length)
         return null
     if (!delimiters || delimiters.length > 2)
-        throw new Error(`Notation parser: Internal error - Incorrect delimiters count. Delimiters: '${delimiters}'`)
+        throw new KeeperNotationError(`Notation parser: Internal error - Incorrect delimiters count. Delimiters: '${delimiters}'`)
 
     let token = ''
     let raw = ''
@@ -158,7 +159,7 @@ function parseSubsection(text: string, pos: number, delimiters: string, escaped:
             // notation cannot end in single char incomplete escape sequence
             // and only escape_chars should be escaped
             if (((pos + 1) >= text.length) || !EscapeChars.includes(text[pos + 1]))
-                throw new Error(`Notation parser: Incorrect escape sequence at position ${pos}`)
+                throw new KeeperNotationError(`Notation parser: Incorrect escape sequence at position ${pos}`)
             // copy the properly escaped character
             token += text[pos + 1]
             raw += text[pos] + text[pos + 1]
@@ -172,9 +173,9 @@ function parseSubsection(text: string, pos: number, delimiters: string, escaped:
                     token += text[pos]
             } else { // 2 delimiters
                 if (raw[0] != delimiters[0])
-                    throw new Error(`Notation parser: Index sections must start with '['`)
+                    throw new KeeperNotationError(`Notation parser: Index sections must start with '['`)
                 if (raw.length > 1 && text[pos] == delimiters[0])
-                    throw new Error(`Notation parser: Index sections do not allow extra '[' inside.`)
+                    throw new KeeperNotationError(`Notation parser: Index sections do not allow extra '[' inside.`)
                 if (!delimiters.includes(text[pos]))
                     token += text[pos]
                 else if (text[pos] == delimiters[1])
@@ -187,7 +188,7 @@ function parseSubsection(text: string, pos: number, delimiters: string, escaped:
     if (delimiters.length == 2 && (
         (raw.length < 2 || raw[0] != delimiters[0] || raw[raw.length - 1] != delimiters[1]) ||
         (escaped && raw.charCodeAt(raw.length - 2) == EscapeChar)))
-    throw new Error(`Notation parser: Index sections must be enclosed in '[' and ']'`)
+    throw new KeeperNotationError(`Notation parser: Index sections must be enclosed in '[' and ']'`)
 
     const result: StringTuple = [token, raw]
     return result
@@ -195,12 +196,12 @@ function parseSubsection(text: string, pos: number, delimiters: string, escaped:
 
 function parseSection(notation: string, section: string, pos: number): NotationSection {
     if (!notation)
-        throw new Error(`Keeper notation parsing error - missing notation URI`)
+        throw new KeeperNotationError(`Keeper notation parsing error - missing notation URI`)
 
     const sectionName = section.toLowerCase()
     const sections = ['prefix', 'record', 'selector', 'footer']
     if (!sections.includes(sectionName))
-        throw new Error(`Keeper notation parsing error - unknown section: '${sectionName}'`)
+        throw new KeeperNotationError(`Keeper notation parsing error - unknown section: '${sectionName}'`)
 
     const result = new NotationSection(section)
     result.startPos = pos
@@ -280,7 +281,7 @@ function parseSection(notation: string, section: string, pos: number): NotationS
             }
             break
         }
-        default: throw new Error(`Keeper notation parsing error - unknown section: ${sectionName}`)
+        default: throw new KeeperNotationError(`Keeper notation parsing error - unknown section: ${sectionName}`)
     }
 
     return result
@@ -288,7 +289,7 @@ function parseSection(notation: string, section: string, pos: number): NotationS
 
 export function parseNotation(notation: string, legacyMode: boolean = false): NotationSection[] {
     if (!notation)
-        throw new Error('Keeper notation is missing or invalid.')
+        throw new KeeperNotationError('Keeper notation is missing or invalid.')
 
     // Notation is either plaintext keeper URI format or URL safe base64 string (UTF8)
     // auto detect format - '/' is not part of base64 URL safe alphabet
@@ -299,7 +300,7 @@ export function parseNotation(notation: string, legacyMode: boolean = false): No
             notation = plaintext
         }
         catch (Exception) {
-            throw new Error('Keeper notation is in invalid format - plaintext URI or URL safe base64 string expected.')
+            throw new KeeperNotationError('Keeper notation is in invalid format - plaintext URI or URL safe base64 string expected.')
         }
     }
 
@@ -317,24 +318,24 @@ export function parseNotation(notation: string, legacyMode: boolean = false): No
     const fullSelectors = ['field', 'custom_field', 'file']
     const selectors = ['type', 'title', 'notes', 'field', 'custom_field', 'file']
     if (!record.isPresent || !selector.isPresent)
-        throw new Error('Keeper notation URI missing information about the uid, file, field type, or field key.')
+        throw new KeeperNotationError('Keeper notation URI missing information about the uid, file, field type, or field key.')
     if (footer.isPresent)
-        throw new Error('Keeper notation is invalid - extra characters after last section.')
+        throw new KeeperNotationError('Keeper notation is invalid - extra characters after last section.')
     if (selector.text == null || !selectors.includes(selector.text[0].toLowerCase()))
-        throw new Error('Keeper notation is invalid - bad selector, must be one of (type, title, notes, field, custom_field, file).')
+        throw new KeeperNotationError('Keeper notation is invalid - bad selector, must be one of (type, title, notes, field, custom_field, file).')
     if (selector.text != null && shortSelectors.includes(selector.text[0].toLowerCase()) && selector.parameter != null)
-        throw new Error('Keeper notation is invalid - selectors (type, title, notes) do not have parameters.')
+        throw new KeeperNotationError('Keeper notation is invalid - selectors (type, title, notes) do not have parameters.')
     if (selector.text != null && fullSelectors.includes(selector.text[0].toLowerCase())) {
         if (selector.parameter == null)
-            throw new Error('Keeper notation is invalid - selectors (field, custom_field, file) require parameters.')
+            throw new KeeperNotationError('Keeper notation is invalid - selectors (field, custom_field, file) require parameters.')
         if ('file' == selector.text[0].toLowerCase() && (selector.index1 != null || selector.index2 != null))
-            throw new Error('Keeper notation is invalid - file selectors don\'t accept indexes.')
+            throw new KeeperNotationError('Keeper notation is invalid - file selectors don\'t accept indexes.')
         if ('file' != selector.text[0].toLowerCase() && selector.index1 == null && selector.index2 != null)
-            throw new Error('Keeper notation is invalid - two indexes required.')
+            throw new KeeperNotationError('Keeper notation is invalid - two indexes required.')
         if (selector.index1 != null && !/^\[\d*\]$/.test(selector.index1[1]))
         {
             if (!legacyMode)
-                throw new Error('Keeper notation is invalid - first index must be numeric: [n] or [].')
+                throw new KeeperNotationError('Keeper notation is invalid - first index must be numeric: [n] or [].')
             if (selector.index2 == null)
             {   // in legacy mode convert /name[middle] to name[][middle]
                 selector.index2 = selector.index1
@@ -346,3 +347,36 @@ export function parseNotation(notation: string, legacyMode: boolean = false): No
     const result: NotationSection[] = [prefix, record, selector, footer]
     return result
 }
+
+// field selector of the record field helpers - <type|label>[index][property], parsed as the field selector of a notation
+export type FieldKey = {
+    key: string             // field type or label
+    index?: number          // [N] selects a single value
+    allValues: boolean      // no index or [] selects all the values
+    property?: string       // [N][property] selects a property of the value
+}
+
+export function parseFieldKey(fieldKey: string): FieldKey {
+    const parameter = parseSubsection(fieldKey, 0, '[', true)
+    if (parameter == null || !parameter[0])
+        throw new KeeperNotationError(`Field key '${fieldKey}' is missing the field type or label`)
+    let pos = parameter[1].length - (parameter[1].endsWith('[') && !parameter[1].endsWith('\\[') ? 1 : 0)
+    const index1 = parseSubsection(fieldKey, pos, '[]', true)
+    let index2: StringTuple | null = null
+    if (index1 != null) {
+        pos += index1[1].length
+        index2 = parseSubsection(fieldKey, pos, '[]', true)
+        if (index2 != null)
+            pos += index2[1].length
+    }
+    if (pos < fieldKey.length)
+        throw new KeeperNotationError(`Field key '${fieldKey}' is invalid - extra characters after the last index`)
+    if (index1 != null && !/^\[\d*\]$/.test(index1[1]))
+        throw new KeeperNotationError(`Field key '${fieldKey}' is invalid - first index must be numeric: [n] or []`)
+    return {
+        key: parameter[0],
+        index: index1 != null && index1[0] ? parseInt(index1[0]) : undefined,
+        allValues: index1 == null || !index1[0],
+        property: index2 != null && index2[0] ? index2[0] : undefined
+    }
+}
@@ -0,0 +1,68 @@
+import {KeyValueStorage, platform} from './platform'
+import {webSafe64FromBytes} from './utils'
+
+// Offline fallback for get_secret and get_folders, opt-in via SecretManagerOptions.offlineCache.
+// The last successful response for each route and filter is kept encrypted under a key derived from the client private key.
+// It is returned when the server can't be reached, entries older than maxAge (ms) are ignored.
+export type OfflineCache = {
+    load(entryId: string): Promise<Uint8Array | undefined>
+    save(entryId: string, entry: Uint8Array): Promise<void>
+    maxAge?: number
+}
+
+export type OfflineCacheQuery = {
+    requestedRecords?: string[]
+    requestedFolders?: string[]
+    requestLinks?: boolean
+}
+
+type OfflineCacheEntry = {
+    savedOn: number
+    data: string
+}
+
+const OFFLINE_CACHE_ENTRY_TAG = 'KEEPER_SECRETS_MANAGER_OFFLINE_CACHE_ENTRY'
+const OFFLINE_CACHE_KEY_TAG = 'KEEPER_SECRETS_MANAGER_OFFLINE_CACHE_KEY'
+
+export const offlineCacheRoutes = ['get_secret', 'get_folders']
+
+// entry id doesn't reveal the client or the requested UIDs, it is safe to use as a file name
+export const getOfflineCacheEntryId = async (clientId: string, route: string, query: OfflineCacheQuery): Promise<string> => {
+    const entryKey = JSON.stringify([
+        clientId,
+        route,
+        query.requestedRecords ? [...query.requestedRecords].sort() : null,
+        query.requestedFolders ? [...query.requestedFolders].sort() : null,
+        !!query.requestLinks
+    ])
+    const entryHash = await platform.hash(platform.stringToBytes(entryKey), OFFLINE_CACHE_ENTRY_TAG)
+    return webSafe64FromBytes(entryHash.slice(0, 32))
+}
+
+const getOfflineCacheKey = async (privateKey: Uint8Array): Promise<Uint8Array> =>
+    (await platform.hash(privateKey, OFFLINE_CACHE_KEY_TAG)).slice(0, 32)
+
+export const encryptOfflineCacheEntry = async (privateKey: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+    const entry: OfflineCacheEntry = {
+        savedOn: Date.now(),
+        data: platform.bytesToBase64(data)
+    }
+    return platform.encryptWithKey(platform.stringToBytes(JSON.stringify(entry)), await getOfflineCacheKey(privateKey))
+}
+
+// returns undefined for expired entries
+export const decryptOfflineCacheEntry = async (privateKey: Uint8Array, encryptedEntry: Uint8Array, maxAge?: number): Promise<Uint8Array | undefined> => {
+    const entryBytes = await platform.decryptWithKey(encryptedEntry, await getOfflineCacheKey(privateKey))
+    const entry: OfflineCacheEntry = JSON.parse(platform.bytesToString(entryBytes))
+    if (maxAge && Date.now() - entry.savedOn > maxAge) {
+        return undefined
+    }
+    return platform.base64ToBytes(entry.data)
+}
+
+// keeps the entries in a key-value storage, ex. browser localConfigStorage
+export const storageOfflineCache = (storage: KeyValueStorage, maxAge?: number): OfflineCache => ({
+    load: entryId => storage.getBytes(`offlineCache/${entryId}`),
+    save: (entryId, entry) => storage.saveBytes(`offlineCache/${entryId}`, entry),
+    maxAge: maxAge
+})
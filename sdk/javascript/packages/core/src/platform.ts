@@ -1,3 +1,5 @@
+import {Logger} from './logger'
+
 export type Platform = {
 //  string routines
     bytesToBase64(data: Uint8Array): string
@@ -7,27 +9,29 @@ export type Platform = {
 
 //  cryptography
     getRandomBytes(length: number): Uint8Array
-    generatePrivateKey(keyId: string, storage: KeyValueStorage): Promise<void>
-    exportPublicKey(keyId: string, storage: KeyValueStorage): Promise<Uint8Array>
-    sign(data: Uint8Array, keyId: string, storage: KeyValueStorage): Promise<Uint8Array>
+    generatePrivateKey(keyId: string, storage: KeyValueStorage, keyCache?: KeyCache): Promise<void>
+    exportPublicKey(keyId: string, storage: KeyValueStorage, keyCache?: KeyCache): Promise<Uint8Array>
+    sign(data: Uint8Array, keyId: string, storage: KeyValueStorage, keyCache?: KeyCache): Promise<Uint8Array>
+    verify?(data: Uint8Array, signature: Uint8Array, publicKey: Uint8Array): Promise<boolean>  // DER signature, raw P-256 public key
     publicEncrypt(data: Uint8Array, key: Uint8Array, id?: Uint8Array): Promise<Uint8Array>
-    importKey(keyId: string, key: Uint8Array, storage?: KeyValueStorage): Promise<void>
-    unwrap(key: Uint8Array, keyId: string, unwrappingKeyId: string, storage?: KeyValueStorage, memoryOnly?: boolean, useCBC?: boolean): Promise<void>
-    encrypt(data: Uint8Array, keyId: string, storage?: KeyValueStorage, useCBC?: boolean): Promise<Uint8Array>
+    importKey(keyId: string, key: Uint8Array, storage?: KeyValueStorage, keyCache?: KeyCache): Promise<void>
+    unwrap(key: Uint8Array, keyId: string, unwrappingKeyId: string, storage?: KeyValueStorage, memoryOnly?: boolean, useCBC?: boolean, keyCache?: KeyCache): Promise<void>
+    encrypt(data: Uint8Array, keyId: string, storage?: KeyValueStorage, useCBC?: boolean, keyCache?: KeyCache): Promise<Uint8Array>
     encryptWithKey(data: Uint8Array, key: Uint8Array, useCBC?: boolean): Promise<Uint8Array>
-    decrypt(data: Uint8Array, keyId: string, storage?: KeyValueStorage, useCBC?: boolean): Promise<Uint8Array>
+    decrypt(data: Uint8Array, keyId: string, storage?: KeyValueStorage, useCBC?: boolean, keyCache?: KeyCache): Promise<Uint8Array>
     decryptWithKey(data: Uint8Array, key: Uint8Array, useCBC?: boolean): Promise<Uint8Array>
     hash(data: Uint8Array, tag: string): Promise<Uint8Array>
-    cleanKeyCache(): void
-    hasKeysCached(): boolean;
+    deriveKey?(passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array>    // PBKDF2-HMAC-SHA256, 32 bytes
+    cleanKeyCache(keyCache?: KeyCache, keepKeyIds?: string[]): void
+    hasKeysCached(keyCache?: KeyCache): boolean;
     getHmacDigest(algorithm: string, secret: Uint8Array, message: Uint8Array): Promise<Uint8Array>
     getRandomNumber(n: number): Promise<number>
     getRandomCharacterInCharset(charset: string): Promise<string>
 
 //  network
-    get(url: string, headers: any): Promise<KeeperHttpResponse>
-    post(url: string, request: Uint8Array, headers?: { [key: string]: string }, allowUnverifiedCertificate?: boolean): Promise<KeeperHttpResponse>
-    fileUpload(url: string, uploadParameters: any, data: Uint8Array | Blob): Promise<any>
+    get(url: string, headers: any, signal?: AbortSignal): Promise<KeeperHttpResponse>
+    post(url: string, request: Uint8Array, headers?: { [key: string]: string }, allowUnverifiedCertificate?: boolean, timeout?: number, signal?: AbortSignal): Promise<KeeperHttpResponse>
+    fileUpload(url: string, uploadParameters: any, data: Uint8Array | Blob, signal?: AbortSignal, logger?: Logger): Promise<any>
     setCustomProxyAgent(proxyAgent: any): void
 }
 
@@ -39,8 +43,74 @@ export type KeyValueStorage = {
     delete(key): Promise<void>
     getObject?<T>(key: string): Promise<T | undefined>
     saveObject?<T>(key: string, value: T): Promise<void>
+    batch?<T>(operations: () => Promise<T>): Promise<T>    // persists all the changes made by operations at once
+}
+
+// Unwrapped keys held in memory by the platform - raw bytes on node, CryptoKey objects in the browser.
+// Every platform call that works with key ids accepts an optional cache, the platform default cache is used if omitted.
+export type KeyCache = {
+    get(keyId: string): any | undefined
+    set(keyId: string, key: any): void
+    delete(keyId: string): void
+    clear(keepKeyIds?: string[]): void
+    isEmpty(): boolean
+}
+
+// Removed keys are zero-filled when they are held as bytes (node), CryptoKey objects can only be dereferenced.
+// With maxAge (ms) a key expires that long after it was cached and is loaded from the storage again if it is there.
+export const createKeyCache = (maxAge?: number): KeyCache => {
+    const keys: Record<string, { key: any, cachedOn: number }> = {}
+    const wipe = (keyId: string) => {
+        const key = keys[keyId].key
+        if (key instanceof Uint8Array) {
+            key.fill(0)
+        }
+        delete keys[keyId]
+    }
+    const removeExpired = () => {
+        if (!maxAge) {
+            return
+        }
+        const now = Date.now()
+        for (const keyId in keys) {
+            if (now - keys[keyId].cachedOn >= maxAge) {
+                wipe(keyId)
+            }
+        }
+    }
+    return {
+        get: keyId => {
+            removeExpired()
+            return keys[keyId]?.key
+        },
+        set: (keyId, key) => {
+            if (keys[keyId] && keys[keyId].key !== key) {
+                wipe(keyId)
+            }
+            keys[keyId] = {key, cachedOn: Date.now()}
+        },
+        delete: keyId => {
+            if (keys[keyId]) {
+                wipe(keyId)
+            }
+        },
+        clear: keepKeyIds => {
+            for (const keyId in keys) {
+                if (!keepKeyIds?.includes(keyId)) {
+                    wipe(keyId)
+                }
+            }
+        },
+        isEmpty: () => {
+            removeExpired()
+            return Object.keys(keys).length === 0
+        }
+    }
 }
 
+// used by the platforms when a call doesn't pass a cache
+export const defaultKeyCache = createKeyCache()
+
 export type TransmissionKey = {
     publicKeyId: number
     key: Uint8Array
@@ -65,6 +135,11 @@ export function connectPlatform(p: Platform) {
 export let platform: Platform
 
 export const loadJsonConfig = (config: string) : KeyValueStorage  => {
+    return inMemoryStorage(parseJsonConfig(config))
+}
+
+// config is a JSON or base64 encoded JSON string
+export const parseJsonConfig = (config: string): any => {
     let jsonStr: string = config
     try
     {
@@ -76,7 +151,7 @@ export const loadJsonConfig = (config: string) : KeyValueStorage  => {
         jsonStr = config
      }
 
-    return inMemoryStorage(JSON.parse(jsonStr))
+    return JSON.parse(jsonStr)
 }
 
 export const inMemoryStorage = (storage: any): KeyValueStorage => {
@@ -143,6 +218,92 @@ export const inMemoryStorage = (storage: any): KeyValueStorage => {
     }
 }
 
+// The whole configuration kept as one JSON document, ex. a config file or a cloud secret
+export type JsonDocument = {
+    read(): Promise<any>            // parsed configuration, empty object if the document does not exist yet
+    write(data: any): Promise<void>
+    lock?<T>(operation: () => Promise<T>): Promise<T>     // keeps the other writers out, ex. other processes
+}
+
+type JsonDocumentChange = (storage: KeyValueStorage) => Promise<void>
+
+// KeyValueStorage on top of a JSON document, the reads are served from the document read once.
+// Every change is applied on top of the document read again before the write,
+// so the changes made by others in the meantime are not lost. Changes made within batch() are written at once,
+// none of them are written when the operations fail.
+export const jsonDocumentStorage = (document: JsonDocument, initialData?: any): KeyValueStorage => {
+    let loaded: Promise<any> | undefined = initialData ? Promise.resolve(initialData) : undefined
+    let writes: Promise<void> = Promise.resolve()
+    const lock = <T>(operation: () => Promise<T>): Promise<T> => document.lock ? document.lock(operation) : operation()
+
+    const load = (): Promise<any> => loaded || (loaded = document.read().then(undefined, e => {
+        loaded = undefined
+        throw e
+    }))
+
+    const saveDocument = (changes: JsonDocumentChange[]): Promise<void> => {
+        const write = writes.then(() => lock(async () => {
+            const data = await document.read()
+            const storage = inMemoryStorage(data)
+            for (const change of changes) {
+                await change(storage)
+            }
+            await document.write(data)
+            loaded = Promise.resolve(data)
+        }))
+        writes = write.then(undefined, () => undefined)
+        return write
+    }
+
+    let batchDepth = 0
+    let batchChanges: JsonDocumentChange[] = []
+    let batchData: any
+
+    const getStorage = async (): Promise<KeyValueStorage> => inMemoryStorage(batchData || await load())
+
+    const applyChange = async (change: JsonDocumentChange) => {
+        if (batchDepth > 0) {
+            if (!batchData) {
+                batchData = JSON.parse(JSON.stringify(await load()))
+            }
+            await change(inMemoryStorage(batchData))
+            batchChanges.push(change)
+        } else {
+            await saveDocument([change])
+        }
+    }
+
+    return {
+        getString: async key => (await getStorage()).getString(key),
+        saveString: (key, value) => applyChange(storage => storage.saveString(key, value)),
+        getBytes: async key => (await getStorage()).getBytes(key),
+        saveBytes: (key, value) => applyChange(storage => storage.saveBytes(key, value)),
+        delete: key => applyChange(storage => storage.delete(key)),
+        batch: async operations => {
+            // a failed nested batch discards its own changes only
+            const changeCount = batchChanges.length
+            const data = batchData && JSON.stringify(batchData)
+            batchDepth++
+            try {
+                return await operations()
+            } catch (e) {
+                batchChanges.length = changeCount
+                batchData = data && JSON.parse(data)
+                throw e
+            } finally {
+                if (--batchDepth === 0) {
+                    const changes = batchChanges
+                    batchChanges = []
+                    batchData = undefined
+                    if (changes.length > 0) {
+                        await saveDocument(changes)
+                    }
+                }
+            }
+        }
+    }
+}
+
 export const setCustomProxyAgent = (proxyAgent: any) => {
     platform.setCustomProxyAgent(proxyAgent)
 }
\ No newline at end of file
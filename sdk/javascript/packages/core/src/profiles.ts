@@ -0,0 +1,128 @@
+import {KeyValueStorage} from './platform'
+import {KeeperStorageError} from './errors'
+import {initializeStorage} from './keeper'
+import {configKeys} from './config'
+
+// Several configurations kept in a single storage, ex. one localConfigStorage file for dev, stage and prod.
+// Profile values are nested under profiles/<name>/, the list of the profiles and the default one are kept next to them.
+const KEY_PROFILES = 'profiles'
+const KEY_PROFILE_NAMES = 'profileNames'
+const KEY_DEFAULT_PROFILE = 'defaultProfile'
+
+const checkProfileName = (profileName: string) => {
+    if (!profileName || profileName.includes('/')) {
+        throw new KeeperStorageError(`Invalid profile name "${profileName}"`)
+    }
+}
+
+// storages that support batching write all the changes at once, or none of them when the operations fail
+const inBatch = <T>(base: KeyValueStorage, operations: () => Promise<T>): Promise<T> =>
+    base.batch ? base.batch(operations) : operations()
+
+export const listProfiles = async (base: KeyValueStorage): Promise<string[]> => {
+    const profileNames = await base.getString(KEY_PROFILE_NAMES)
+    return profileNames ? JSON.parse(profileNames) : []
+}
+
+const saveProfiles = (base: KeyValueStorage, profileNames: string[]) =>
+    base.saveString(KEY_PROFILE_NAMES, JSON.stringify(profileNames))
+
+const getExistingProfiles = async (base: KeyValueStorage, profileName: string): Promise<string[]> => {
+    const profileNames = await listProfiles(base)
+    if (!profileNames.includes(profileName)) {
+        throw new KeeperStorageError(`Profile "${profileName}" does not exist`)
+    }
+    return profileNames
+}
+
+export const getDefaultProfile = async (base: KeyValueStorage): Promise<string | undefined> =>
+    base.getString(KEY_DEFAULT_PROFILE)
+
+export const setDefaultProfile = async (base: KeyValueStorage, profileName: string): Promise<void> => {
+    await getExistingProfiles(base, profileName)
+    await base.saveString(KEY_DEFAULT_PROFILE, profileName)
+}
+
+// storage for a single profile, the default profile is used when profileName is omitted
+export const profiledStorage = (base: KeyValueStorage, profileName?: string): KeyValueStorage => {
+    if (profileName !== undefined) {
+        checkProfileName(profileName)
+    }
+    const profileKey = async (key: string): Promise<string> => {
+        const name = profileName ?? await getDefaultProfile(base)
+        if (!name) {
+            throw new KeeperStorageError('Default profile is not set')
+        }
+        return `${KEY_PROFILES}/${name}/${key}`
+    }
+    const storage: KeyValueStorage = {
+        getString: async key => base.getString(await profileKey(key)),
+        saveString: async (key, value) => base.saveString(await profileKey(key), value),
+        getBytes: async key => base.getBytes(await profileKey(key)),
+        saveBytes: async (key, value) => base.saveBytes(await profileKey(key), value),
+        delete: async key => base.delete(await profileKey(key))
+    }
+    if (base.batch) {
+        storage.batch = operations => base.batch!(operations)
+    }
+    return storage
+}
+
+// binds a new profile with a one time token, the first profile becomes the default one
+export const addProfile = async (base: KeyValueStorage, profileName: string, oneTimeToken: string, hostName?: string): Promise<KeyValueStorage> => {
+    checkProfileName(profileName)
+    const storage = profiledStorage(base, profileName)
+    await inBatch(base, async () => {
+        const profileNames = await listProfiles(base)
+        if (profileNames.includes(profileName)) {
+            throw new KeeperStorageError(`Profile "${profileName}" already exists`)
+        }
+        await initializeStorage(storage, oneTimeToken, hostName)
+        await saveProfiles(base, [...profileNames, profileName])
+        if (!await getDefaultProfile(base)) {
+            await base.saveString(KEY_DEFAULT_PROFILE, profileName)
+        }
+    })
+    return storage
+}
+
+const removeProfileKeys = async (base: KeyValueStorage, profileName: string) => {
+    const storage = profiledStorage(base, profileName)
+    for (const key of configKeys) {
+        await storage.delete(key)
+    }
+    await base.delete(`${KEY_PROFILES}/${profileName}`)
+}
+
+export const renameProfile = async (base: KeyValueStorage, profileName: string, newProfileName: string): Promise<void> => {
+    checkProfileName(newProfileName)
+    await inBatch(base, async () => {
+        const profileNames = await getExistingProfiles(base, profileName)
+        if (profileNames.includes(newProfileName)) {
+            throw new KeeperStorageError(`Profile "${newProfileName}" already exists`)
+        }
+        const from = profiledStorage(base, profileName)
+        const to = profiledStorage(base, newProfileName)
+        for (const key of configKeys) {
+            const value = await from.getString(key)
+            if (value !== undefined) {
+                await to.saveString(key, value)
+            }
+        }
+        await saveProfiles(base, profileNames.map(x => x === profileName ? newProfileName : x))
+        if (await getDefaultProfile(base) === profileName) {
+            await base.saveString(KEY_DEFAULT_PROFILE, newProfileName)
+        }
+        await removeProfileKeys(base, profileName)
+    })
+}
+
+// the default profile is cleared when it is deleted
+export const deleteProfile = async (base: KeyValueStorage, profileName: string): Promise<void> => inBatch(base, async () => {
+    const profileNames = await getExistingProfiles(base, profileName)
+    await saveProfiles(base, profileNames.filter(x => x !== profileName))
+    if (await getDefaultProfile(base) === profileName) {
+        await base.delete(KEY_DEFAULT_PROFILE)
+    }
+    await removeProfileKeys(base, profileName)
+})
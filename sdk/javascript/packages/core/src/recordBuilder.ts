@@ -0,0 +1,371 @@
+import {
+    Address,
+    AddressField,
+    EmailField,
+    Host,
+    HostField,
+    KeeperRecordField,
+    KeyPair,
+    KeyPairField,
+    LoginField,
+    MultilineField,
+    Name,
+    NameField,
+    OneTimeCodeField,
+    PamHostnameField,
+    PasswordComplexity,
+    PasswordField,
+    PaymentCard,
+    PaymentCardField,
+    Phone,
+    PhoneField,
+    SecretField,
+    TextField,
+    UrlField
+} from './keeper'
+import {FieldType, RecordTemplateField, recordTemplates, TypedRecordData} from './recordTypes'
+import {KeeperValidationError, RecordDataViolation} from './errors'
+
+// expected value of a field, properties not listed in an object shape are not checked
+type ValueShape = 'string' | 'number' | 'boolean' | 'object'
+    | { arrayOf: ValueShape }
+    | { properties: { [property: string]: ValueShape } }
+
+const stringProperties = (...properties: string[]): ValueShape => {
+    const shape: { [property: string]: ValueShape } = {}
+    for (const property of properties) {
+        shape[property] = 'string'
+    }
+    return {properties: shape}
+}
+
+const hostShape = stringProperties('hostName', 'port')
+
+const fieldValueShapes: { [T in FieldType]: ValueShape } = {
+    login: 'string',
+    password: 'string',
+    url: 'string',
+    fileRef: 'string',
+    oneTimeCode: 'string',
+    otp: 'string',
+    name: stringProperties('first', 'middle', 'last'),
+    birthDate: 'number',
+    date: 'number',
+    expirationDate: 'number',
+    text: 'string',
+    securityQuestion: stringProperties('question', 'answer'),
+    multiline: 'string',
+    email: 'string',
+    cardRef: 'string',
+    addressRef: 'string',
+    pinCode: 'string',
+    phone: stringProperties('region', 'number', 'ext', 'type'),
+    secret: 'string',
+    note: 'string',
+    accountNumber: 'string',
+    paymentCard: stringProperties('cardNumber', 'cardExpirationDate', 'cardSecurityCode'),
+    bankAccount: stringProperties('accountType', 'routingNumber', 'accountNumber', 'otherType'),
+    keyPair: stringProperties('publicKey', 'privateKey'),
+    host: hostShape,
+    address: stringProperties('street1', 'street2', 'city', 'state', 'country', 'zip'),
+    licenseNumber: 'string',
+    recordRef: 'string',
+    schedule: {properties: {type: 'string', cron: 'string', time: 'string', tz: 'string', weekday: 'string', intervalCount: 'number'}},
+    script: {properties: {fileRef: 'string', command: 'string', recordRef: {arrayOf: 'string'}}},
+    directoryType: 'string',
+    databaseType: 'string',
+    pamHostname: hostShape,
+    pamResources: {properties: {controllerUid: 'string', folderUid: 'string', resourceRef: {arrayOf: 'string'}, allowedSettings: 'object'}},
+    checkbox: 'boolean',
+    passkey: 'object',
+    isSSIDHidden: 'boolean',
+    wifiEncryption: 'string',
+    dropdown: 'string',
+    rbiUrl: 'string',
+    appFiller: stringProperties('applicationTitle', 'contentFilter', 'macroSequence'),
+    pamRemoteBrowserSettings: {properties: {connection: 'object'}},
+    pamSettings: {
+        properties: {
+            portForward: {arrayOf: {properties: {reusePort: 'boolean', port: 'string'}}},
+            connection: {
+                arrayOf: {
+                    properties: {
+                        protocol: 'string',
+                        userRecords: {arrayOf: 'string'},
+                        security: 'string',
+                        ignoreCert: 'boolean',
+                        resizeMethod: 'string',
+                        colorScheme: 'string'
+                    }
+                }
+            }
+        }
+    },
+    trafficEncryptionSeed: 'string'
+}
+
+const checkPort = (host: Host): string | undefined =>
+    host.port && !(/^\d{1,5}$/.test(host.port) && Number(host.port) <= 65535) ? 'port must be a number from 0 to 65535' : undefined
+
+// checks of the values that have the expected shape
+const fieldValueChecks: { [T in FieldType]?: (value: any) => string | undefined } = {
+    host: checkPort,
+    pamHostname: checkPort,
+    paymentCard: (card: PaymentCard) => card.cardExpirationDate && !/^(0[1-9]|1[0-2])\/\d{4}$/.test(card.cardExpirationDate)
+        ? 'cardExpirationDate must be in the MM/YYYY format'
+        : undefined,
+    schedule: (schedule: any) => schedule.intervalCount !== undefined && !(Number.isInteger(schedule.intervalCount) && schedule.intervalCount > 0)
+        ? 'intervalCount must be a positive integer'
+        : undefined
+}
+
+const isObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value)
+
+const checkShape = (value: any, shape: ValueShape, path: string, violations: RecordDataViolation[]) => {
+    if (typeof shape === 'string') {
+        if (shape === 'object' ? !isObject(value) : typeof value !== shape) {
+            violations.push({path, message: `must be ${shape === 'object' ? 'an' : 'a'} ${shape}`})
+        }
+    } else if ('arrayOf' in shape) {
+        if (!Array.isArray(value)) {
+            violations.push({path, message: 'must be an array'})
+            return
+        }
+        value.forEach((item, i) => checkShape(item, shape.arrayOf, `${path}[${i}]`, violations))
+    } else {
+        if (!isObject(value)) {
+            violations.push({path, message: 'must be an object'})
+            return
+        }
+        for (const property of Object.keys(shape.properties)) {
+            if (value[property] !== undefined) {
+                checkShape(value[property], shape.properties[property], `${path}.${property}`, violations)
+            }
+        }
+    }
+}
+
+const isEmptyValue = (value: any): boolean => {
+    if (value === undefined || value === null || value === '') {
+        return true
+    }
+    if (Array.isArray(value)) {
+        return value.every(isEmptyValue)
+    }
+    if (typeof value === 'object') {
+        return Object.keys(value).every(key => isEmptyValue(value[key]))
+    }
+    return false
+}
+
+const isFieldType = (fieldType: string): fieldType is FieldType =>
+    Object.prototype.hasOwnProperty.call(fieldValueShapes, fieldType)
+
+const validateField = (field: any, path: string, violations: RecordDataViolation[]) => {
+    if (!isObject(field)) {
+        violations.push({path, message: 'must be an object'})
+        return
+    }
+    if (typeof field.type !== 'string' || !field.type) {
+        violations.push({path: `${path}.type`, message: 'is required'})
+        return
+    }
+    if (field.label !== undefined && typeof field.label !== 'string') {
+        violations.push({path: `${path}.label`, message: 'must be a string'})
+    }
+    if (field.value === undefined) {
+        if (field.required) {
+            violations.push({path: `${path}.value`, message: 'is required'})
+        }
+        return
+    }
+    if (!Array.isArray(field.value)) {
+        violations.push({path: `${path}.value`, message: 'must be an array'})
+        return
+    }
+    if (field.required && isEmptyValue(field.value)) {
+        violations.push({path: `${path}.value`, message: 'is required'})
+    }
+    // fields of the types not known to the SDK are accepted as is
+    if (!isFieldType(field.type)) {
+        return
+    }
+    const valueCheck = fieldValueChecks[field.type]
+    field.value.forEach((value, i) => {
+        const valueViolations: RecordDataViolation[] = []
+        checkShape(value, fieldValueShapes[field.type], `${path}.value[${i}]`, valueViolations)
+        violations.push(...valueViolations)
+        const message = valueViolations.length === 0 && valueCheck ? valueCheck(value) : undefined
+        if (message) {
+            violations.push({path: `${path}.value[${i}]`, message})
+        }
+    })
+}
+
+const matchesTemplate = (field: KeeperRecordField, templateField: RecordTemplateField) =>
+    field.type === templateField.type && (!templateField.label || !field.label || field.label === templateField.label)
+
+const describeTemplateField = (templateField: RecordTemplateField) =>
+    templateField.label ? `${templateField.type} (${templateField.label})` : templateField.type
+
+// Checks the record data against its record type and the expected field values. Returns all the violations found,
+// an empty list for valid data. Records of the types not known to the SDK are checked for the field values only.
+export const validateRecordData = (recordData: any): RecordDataViolation[] => {
+    const violations: RecordDataViolation[] = []
+    if (!isObject(recordData)) {
+        return [{path: 'recordData', message: 'must be an object'}]
+    }
+    if (typeof recordData.type !== 'string' || !recordData.type) {
+        violations.push({path: 'type', message: 'is required'})
+    }
+    if (typeof recordData.title !== 'string' || !recordData.title) {
+        violations.push({path: 'title', message: 'is required'})
+    }
+    if (recordData.notes !== undefined && typeof recordData.notes !== 'string') {
+        violations.push({path: 'notes', message: 'must be a string'})
+    }
+    if (recordData.custom !== undefined) {
+        if (Array.isArray(recordData.custom)) {
+            recordData.custom.forEach((field, i) => validateField(field, `custom[${i}]`, violations))
+        } else {
+            violations.push({path: 'custom', message: 'must be an array'})
+        }
+    }
+    if (!Array.isArray(recordData.fields)) {
+        violations.push({path: 'fields', message: 'must be an array'})
+        return violations
+    }
+    recordData.fields.forEach((field, i) => validateField(field, `fields[${i}]`, violations))
+
+    const template: RecordTemplateField[] | undefined = Object.prototype.hasOwnProperty.call(recordTemplates, recordData.type)
+        ? recordTemplates[recordData.type]
+        : undefined
+    if (!template) {
+        return violations
+    }
+    recordData.fields.forEach((field, i) => {
+        if (isObject(field) && field.type && !template.some(x => matchesTemplate(field, x))) {
+            violations.push({path: `fields[${i}]`, message: `${field.type} is not a field of the ${recordData.type} record type, add it as a custom field`})
+        }
+    })
+    for (const templateField of template.filter(x => x.required)) {
+        const index = recordData.fields.findIndex(x => isObject(x) && matchesTemplate(x, templateField))
+        if (index < 0) {
+            violations.push({path: 'fields', message: `${describeTemplateField(templateField)} is required`})
+        } else if (isEmptyValue(recordData.fields[index].value)) {
+            violations.push({path: `fields[${index}].value`, message: `${describeTemplateField(templateField)} is required`})
+        }
+    }
+    return violations
+}
+
+const withLabel = <T extends KeeperRecordField>(field: T, label?: string): T => {
+    if (label) {
+        field.label = label
+    }
+    return field
+}
+
+// Fluent builder of the record data for createSecret and createSecret2, ex.
+// new RecordBuilder('login').title('My Login').login('user').password('secret').custom(new TextField('value')).build()
+export class RecordBuilder {
+    private readonly data: TypedRecordData
+
+    constructor(recordType: string, title: string = '') {
+        this.data = {type: recordType, title: title, fields: []}
+    }
+
+    title(title: string): this {
+        this.data.title = title
+        return this
+    }
+
+    notes(notes: string): this {
+        this.data.notes = notes
+        return this
+    }
+
+    // adds a standard field of the record type
+    field(field: KeeperRecordField): this {
+        this.data.fields.push(field)
+        return this
+    }
+
+    custom(field: KeeperRecordField): this {
+        (this.data.custom || (this.data.custom = [])).push(field)
+        return this
+    }
+
+    login(login: string, label?: string): this {
+        return this.field(withLabel(new LoginField(login), label))
+    }
+
+    password(password: string, label?: string, complexity?: PasswordComplexity): this {
+        const field = withLabel(new PasswordField(password), label)
+        if (complexity) {
+            field.complexity = complexity
+        }
+        return this.field(field)
+    }
+
+    url(url: string, label?: string): this {
+        return this.field(withLabel(new UrlField(url), label))
+    }
+
+    oneTimeCode(otpUrl: string): this {
+        return this.field(new OneTimeCodeField(otpUrl))
+    }
+
+    email(email: string, label?: string): this {
+        return this.field(withLabel(new EmailField(email), label))
+    }
+
+    text(text: string, label?: string): this {
+        return this.field(withLabel(new TextField(text), label))
+    }
+
+    multiline(text: string, label?: string): this {
+        return this.field(withLabel(new MultilineField(text), label))
+    }
+
+    secret(secret: string, label?: string): this {
+        return this.field(withLabel(new SecretField(secret), label))
+    }
+
+    name(name: Name, label?: string): this {
+        return this.field(withLabel(new NameField(name), label))
+    }
+
+    phone(phone: Phone, label?: string): this {
+        return this.field(withLabel(new PhoneField(phone), label))
+    }
+
+    address(address: Address, label?: string): this {
+        return this.field(withLabel(new AddressField(address), label))
+    }
+
+    paymentCard(paymentCard: PaymentCard, label?: string): this {
+        return this.field(withLabel(new PaymentCardField(paymentCard), label))
+    }
+
+    keyPair(keyPair: KeyPair, label?: string): this {
+        return this.field(withLabel(new KeyPairField(keyPair), label))
+    }
+
+    host(host: Host, label?: string): this {
+        return this.field(withLabel(new HostField(host), label))
+    }
+
+    pamHostname(host: Host, label?: string): this {
+        return this.field(withLabel(new PamHostnameField(host), label))
+    }
+
+    // validates the record data, throws KeeperValidationError listing all the violations
+    build(): TypedRecordData {
+        const violations = validateRecordData(this.data)
+        if (violations.length > 0) {
+            throw new KeeperValidationError(violations)
+        }
+        return JSON.parse(JSON.stringify(this.data))
+    }
+}
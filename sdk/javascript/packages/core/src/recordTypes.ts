@@ -0,0 +1,371 @@
+import {
+    AccountNumberField,
+    AddressField,
+    AddressRefField,
+    AppFillerField,
+    BankAccountField,
+    BirthDateField,
+    CardRefField,
+    CheckboxField,
+    DatabaseTypeField,
+    DateField,
+    DirectoryTypeField,
+    DropdownField,
+    EmailField,
+    ExpirationDateField,
+    FileRefField,
+    HostField,
+    IsSSIDHiddenField,
+    KeeperRecord,
+    KeeperRecordField,
+    KeyPairField,
+    LicenseNumberField,
+    LoginField,
+    MultilineField,
+    NameField,
+    OneTimeCodeField,
+    OtpField,
+    PamHostnameField,
+    PamRemoteBrowserSettingsField,
+    PamResourceField,
+    PamSettingsField,
+    PasskeyField,
+    PasswordField,
+    PaymentCardField,
+    PhoneField,
+    PinCodeField,
+    RbiUrlField,
+    RecordRefField,
+    ScheduleField,
+    ScriptField,
+    SecretField,
+    SecureNoteField,
+    SecurityQuestionField,
+    TextField,
+    TrafficEncryptionSeedField,
+    UrlField,
+    WifiEncryptionField
+} from './keeper'
+import {FieldKey, parseFieldKey} from './notation'
+import {KeeperNotationError} from './errors'
+
+// field classes by the field type
+export type FieldTypes = {
+    login: LoginField
+    password: PasswordField
+    url: UrlField
+    fileRef: FileRefField
+    oneTimeCode: OneTimeCodeField
+    otp: OtpField
+    name: NameField
+    birthDate: BirthDateField
+    date: DateField
+    expirationDate: ExpirationDateField
+    text: TextField
+    securityQuestion: SecurityQuestionField
+    multiline: MultilineField
+    email: EmailField
+    cardRef: CardRefField
+    addressRef: AddressRefField
+    pinCode: PinCodeField
+    phone: PhoneField
+    secret: SecretField
+    note: SecureNoteField
+    accountNumber: AccountNumberField
+    paymentCard: PaymentCardField
+    bankAccount: BankAccountField
+    keyPair: KeyPairField
+    host: HostField
+    address: AddressField
+    licenseNumber: LicenseNumberField
+    recordRef: RecordRefField
+    schedule: ScheduleField
+    script: ScriptField
+    directoryType: DirectoryTypeField
+    databaseType: DatabaseTypeField
+    pamHostname: PamHostnameField
+    pamResources: PamResourceField
+    checkbox: CheckboxField
+    passkey: PasskeyField
+    isSSIDHidden: IsSSIDHiddenField
+    wifiEncryption: WifiEncryptionField
+    dropdown: DropdownField
+    rbiUrl: RbiUrlField
+    appFiller: AppFillerField
+    pamRemoteBrowserSettings: PamRemoteBrowserSettingsField
+    pamSettings: PamSettingsField
+    trafficEncryptionSeed: TrafficEncryptionSeedField
+}
+
+export type FieldType = keyof FieldTypes
+
+// record data as stored in KeeperRecord.data, records of the types not known to the SDK have this shape as well
+export type RecordData<T extends string = string, F extends KeeperRecordField = KeeperRecordField> = {
+    type: T
+    title: string
+    notes?: string
+    fields: F[]
+    custom?: KeeperRecordField[]
+}
+
+type FieldsOf<T extends FieldType> = FieldTypes[T]
+
+export type LoginRecordData = RecordData<'login', FieldsOf<'login' | 'password' | 'url' | 'fileRef' | 'oneTimeCode'>>
+export type BankAccountRecordData = RecordData<'bankAccount', FieldsOf<'bankAccount' | 'name' | 'login' | 'password' | 'url' | 'cardRef' | 'fileRef' | 'oneTimeCode'>>
+export type AddressRecordData = RecordData<'address', FieldsOf<'address' | 'fileRef'>>
+export type BankCardRecordData = RecordData<'bankCard', FieldsOf<'paymentCard' | 'text' | 'pinCode' | 'addressRef' | 'fileRef'>>
+export type BirthCertificateRecordData = RecordData<'birthCertificate', FieldsOf<'name' | 'birthDate' | 'fileRef'>>
+export type ContactRecordData = RecordData<'contact', FieldsOf<'name' | 'text' | 'email' | 'phone' | 'addressRef' | 'fileRef'>>
+export type DriverLicenseRecordData = RecordData<'driverLicense', FieldsOf<'accountNumber' | 'name' | 'birthDate' | 'addressRef' | 'expirationDate' | 'fileRef'>>
+export type EncryptedNotesRecordData = RecordData<'encryptedNotes', FieldsOf<'note' | 'date' | 'fileRef'>>
+export type FileRecordData = RecordData<'file', FieldsOf<'fileRef'>>
+export type HealthInsuranceRecordData = RecordData<'healthInsurance', FieldsOf<'accountNumber' | 'name' | 'login' | 'password' | 'url' | 'fileRef'>>
+export type MembershipRecordData = RecordData<'membership', FieldsOf<'accountNumber' | 'name' | 'password' | 'fileRef'>>
+export type PassportRecordData = RecordData<'passport', FieldsOf<'accountNumber' | 'name' | 'birthDate' | 'addressRef' | 'expirationDate' | 'date' | 'password' | 'fileRef'>>
+export type PhotosRecordData = RecordData<'photos', FieldsOf<'fileRef'>>
+export type ServerCredentialsRecordData = RecordData<'serverCredentials', FieldsOf<'host' | 'login' | 'password' | 'fileRef'>>
+export type SoftwareLicenseRecordData = RecordData<'softwareLicense', FieldsOf<'licenseNumber' | 'expirationDate' | 'date' | 'fileRef'>>
+export type SsnCardRecordData = RecordData<'ssnCard', FieldsOf<'accountNumber' | 'name' | 'fileRef'>>
+export type SshKeysRecordData = RecordData<'sshKeys', FieldsOf<'login' | 'keyPair' | 'password' | 'host' | 'fileRef'>>
+export type DatabaseCredentialsRecordData = RecordData<'databaseCredentials', FieldsOf<'text' | 'host' | 'login' | 'password' | 'fileRef'>>
+export type WifiCredentialsRecordData = RecordData<'wifiCredentials', FieldsOf<'text' | 'password' | 'wifiEncryption' | 'isSSIDHidden' | 'fileRef'>>
+export type PamMachineRecordData = RecordData<'pamMachine', FieldsOf<'pamHostname' | 'pamSettings' | 'trafficEncryptionSeed' | 'login' | 'password' | 'secret' | 'text' | 'fileRef'>>
+export type PamDatabaseRecordData = RecordData<'pamDatabase', FieldsOf<'pamHostname' | 'pamSettings' | 'trafficEncryptionSeed' | 'checkbox' | 'login' | 'password' | 'databaseType' | 'text' | 'fileRef'>>
+export type PamDirectoryRecordData = RecordData<'pamDirectory', FieldsOf<'pamHostname' | 'pamSettings' | 'trafficEncryptionSeed' | 'directoryType' | 'checkbox' | 'login' | 'password' | 'fileRef'>>
+export type PamUserRecordData = RecordData<'pamUser', FieldsOf<'login' | 'password' | 'secret' | 'text' | 'checkbox' | 'oneTimeCode' | 'fileRef'>>
+export type PamRemoteBrowserRecordData = RecordData<'pamRemoteBrowser', FieldsOf<'rbiUrl' | 'pamRemoteBrowserSettings' | 'trafficEncryptionSeed' | 'fileRef'>>
+
+// record data by the record type
+export type RecordDataTypes = {
+    login: LoginRecordData
+    bankAccount: BankAccountRecordData
+    address: AddressRecordData
+    bankCard: BankCardRecordData
+    birthCertificate: BirthCertificateRecordData
+    contact: ContactRecordData
+    driverLicense: DriverLicenseRecordData
+    encryptedNotes: EncryptedNotesRecordData
+    file: FileRecordData
+    healthInsurance: HealthInsuranceRecordData
+    membership: MembershipRecordData
+    passport: PassportRecordData
+    photos: PhotosRecordData
+    serverCredentials: ServerCredentialsRecordData
+    softwareLicense: SoftwareLicenseRecordData
+    ssnCard: SsnCardRecordData
+    sshKeys: SshKeysRecordData
+    databaseCredentials: DatabaseCredentialsRecordData
+    wifiCredentials: WifiCredentialsRecordData
+    pamMachine: PamMachineRecordData
+    pamDatabase: PamDatabaseRecordData
+    pamDirectory: PamDirectoryRecordData
+    pamUser: PamUserRecordData
+    pamRemoteBrowser: PamRemoteBrowserRecordData
+}
+
+export type RecordType = keyof RecordDataTypes
+
+export type KnownRecordData = RecordDataTypes[RecordType]
+
+// Record types can be added in the vault, so the data of any record is either a known template or a generic RecordData.
+// Use the type guards to narrow it, comparing data.type alone does not exclude the generic member.
+export type TypedRecordData = KnownRecordData | RecordData
+
+export type RecordTemplateField = {
+    type: FieldType
+    label?: string
+    required?: boolean      // the field must have a value
+}
+
+// standard fields of the record types, in the order the vault shows them
+export const recordTemplates: { [T in RecordType]: RecordTemplateField[] } = {
+    login: [{type: 'login'}, {type: 'password'}, {type: 'url'}, {type: 'fileRef'}, {type: 'oneTimeCode'}],
+    bankAccount: [{type: 'bankAccount', required: true}, {type: 'name'}, {type: 'login'}, {type: 'password'}, {type: 'url'}, {type: 'cardRef'}, {type: 'fileRef'}, {type: 'oneTimeCode'}],
+    address: [{type: 'address'}, {type: 'fileRef'}],
+    bankCard: [{type: 'paymentCard', required: true}, {type: 'text', label: 'cardholderName'}, {type: 'pinCode'}, {type: 'addressRef'}, {type: 'fileRef'}],
+    birthCertificate: [{type: 'name'}, {type: 'birthDate'}, {type: 'fileRef'}],
+    contact: [{type: 'name'}, {type: 'text', label: 'company'}, {type: 'email'}, {type: 'phone'}, {type: 'addressRef'}, {type: 'fileRef'}],
+    driverLicense: [{type: 'accountNumber', label: 'dlNumber'}, {type: 'name'}, {type: 'birthDate'}, {type: 'addressRef'}, {type: 'expirationDate'}, {type: 'fileRef'}],
+    encryptedNotes: [{type: 'note'}, {type: 'date'}, {type: 'fileRef'}],
+    file: [{type: 'fileRef'}],
+    healthInsurance: [{type: 'accountNumber'}, {type: 'name', label: 'insuredsName'}, {type: 'login'}, {type: 'password'}, {type: 'url'}, {type: 'fileRef'}],
+    membership: [{type: 'accountNumber'}, {type: 'name'}, {type: 'password'}, {type: 'fileRef'}],
+    passport: [{type: 'accountNumber', label: 'passportNumber'}, {type: 'name'}, {type: 'birthDate'}, {type: 'addressRef'}, {type: 'expirationDate'}, {type: 'date', label: 'dateIssued'}, {type: 'password'}, {type: 'fileRef'}],
+    photos: [{type: 'fileRef'}],
+    serverCredentials: [{type: 'host', required: true}, {type: 'login'}, {type: 'password'}, {type: 'fileRef'}],
+    softwareLicense: [{type: 'licenseNumber'}, {type: 'expirationDate'}, {type: 'date', label: 'dateActive'}, {type: 'fileRef'}],
+    ssnCard: [{type: 'accountNumber', label: 'identityNumber'}, {type: 'name'}, {type: 'fileRef'}],
+    sshKeys: [{type: 'login'}, {type: 'keyPair', required: true}, {type: 'password', label: 'passphrase'}, {type: 'host'}, {type: 'fileRef'}],
+    databaseCredentials: [{type: 'text', label: 'type'}, {type: 'host', required: true}, {type: 'login'}, {type: 'password'}, {type: 'fileRef'}],
+    wifiCredentials: [{type: 'text', label: 'SSID', required: true}, {type: 'password'}, {type: 'wifiEncryption'}, {type: 'isSSIDHidden'}, {type: 'fileRef'}],
+    pamMachine: [{type: 'pamHostname', required: true}, {type: 'pamSettings'}, {type: 'trafficEncryptionSeed'}, {type: 'login'}, {type: 'password'}, {type: 'secret', label: 'privatePEMKey'}, {type: 'text', label: 'operatingSystem'}, {type: 'fileRef'}],
+    pamDatabase: [{type: 'pamHostname', required: true}, {type: 'pamSettings'}, {type: 'trafficEncryptionSeed'}, {type: 'checkbox', label: 'useSSL'}, {type: 'login'}, {type: 'password'}, {type: 'databaseType'}, {type: 'text', label: 'connectDatabase'}, {type: 'fileRef'}],
+    pamDirectory: [{type: 'pamHostname', required: true}, {type: 'pamSettings'}, {type: 'trafficEncryptionSeed'}, {type: 'directoryType'}, {type: 'checkbox', label: 'useSSL'}, {type: 'login'}, {type: 'password'}, {type: 'fileRef'}],
+    pamUser: [{type: 'login', required: true}, {type: 'password'}, {type: 'secret', label: 'privatePEMKey'}, {type: 'text', label: 'distinguishedName'}, {type: 'text', label: 'connectDatabase'}, {type: 'checkbox', label: 'managed'}, {type: 'oneTimeCode'}, {type: 'fileRef'}],
+    pamRemoteBrowser: [{type: 'rbiUrl', required: true}, {type: 'pamRemoteBrowserSettings'}, {type: 'trafficEncryptionSeed'}, {type: 'fileRef'}]
+}
+
+export const isKnownRecordType = (data: TypedRecordData): data is KnownRecordData =>
+    Object.prototype.hasOwnProperty.call(recordTemplates, data.type)
+
+export const isRecordOfType = <T extends RecordType>(data: TypedRecordData, type: T): data is RecordDataTypes[T] =>
+    data.type === type
+
+// accepts either a record or its data
+const recordDataOf = (record: KeeperRecord | TypedRecordData): TypedRecordData =>
+    (record as KeeperRecord).recordUid !== undefined ? (record as KeeperRecord).data : record as TypedRecordData
+
+export const getTypedRecordData = (record: KeeperRecord): TypedRecordData => record.data
+
+// field class of the field type, the base class for the types not known to the SDK
+export type FieldOfType<K extends string> = K extends FieldType ? FieldTypes[K] : KeeperRecordField
+
+// first standard field of the type, optionally with the label
+export const getField = <K extends string>(record: KeeperRecord | TypedRecordData, fieldType: K, label?: string): FieldOfType<K> | undefined => {
+    const fields: KeeperRecordField[] = recordDataOf(record).fields || []
+    return fields.find(x => x.type === fieldType && (label === undefined || x.label === label)) as FieldOfType<K> | undefined
+}
+
+// first custom field of the type, optionally with the label
+export const getCustomField = <K extends string>(record: KeeperRecord | TypedRecordData, fieldType: K, label?: string): FieldOfType<K> | undefined => {
+    const fields: KeeperRecordField[] = recordDataOf(record).custom || []
+    return fields.find(x => x.type === fieldType && (label === undefined || x.label === label)) as FieldOfType<K> | undefined
+}
+
+export const getCustomFieldByLabel = <T extends KeeperRecordField = KeeperRecordField>(record: KeeperRecord | TypedRecordData, label: string): T | undefined => {
+    const fields: KeeperRecordField[] = recordDataOf(record).custom || []
+    return fields.find(x => x.label === label) as T | undefined
+}
+
+// Field helpers below select the field by its type or label with optional indexes, as the field selector of a notation does:
+// 'url' or 'url[]' - all the values, 'phone[1]' - the second value, 'name[0][first]' - a property of the value.
+// A key matching several fields is refused, use the label to tell them apart.
+
+const describeField = (field: KeeperRecordField) => field.label ? `${field.type} (${field.label})` : field.type
+
+const inRecord = (record: KeeperRecord | TypedRecordData) =>
+    (record as KeeperRecord).recordUid !== undefined ? ` in the record ${(record as KeeperRecord).recordUid}` : ''
+
+const findFieldIndex = (record: KeeperRecord | TypedRecordData, fields: KeeperRecordField[], matches: (field: KeeperRecordField) => boolean, key: string): number => {
+    const found: number[] = []
+    fields.forEach((field, i) => {
+        if (matches(field)) {
+            found.push(i)
+        }
+    })
+    if (found.length > 1) {
+        throw new KeeperNotationError(`Field '${key}' is ambiguous${inRecord(record)}, it matches ${found.map(i => describeField(fields[i])).join(', ')}`)
+    }
+    return found.length > 0 ? found[0] : -1
+}
+
+const findField = (record: KeeperRecord | TypedRecordData, fields: KeeperRecordField[], key: string): KeeperRecordField | undefined =>
+    fields[findFieldIndex(record, fields, x => x.type === key || x.label === key, key)]
+
+const readValue = (field: KeeperRecordField | undefined, fieldKey: FieldKey): any => {
+    if (!field) {
+        return undefined
+    }
+    const values = field.value || []
+    if (fieldKey.allValues) {
+        const property = fieldKey.property
+        if (property === undefined) {
+            return values
+        }
+        // the property of each value that has it, like a notation with an empty index
+        return values.filter(x => x != null && typeof x === 'object' && property in x).map(x => x[property])
+    }
+    const value = values[fieldKey.index ?? 0]
+    return fieldKey.property === undefined ? value : value?.[fieldKey.property]
+}
+
+const writeValue = (record: KeeperRecord | TypedRecordData, field: KeeperRecordField | undefined, fieldKey: FieldKey, value: any) => {
+    if (!field) {
+        throw new KeeperNotationError(`Field '${fieldKey.key}' not found${inRecord(record)}, use upsertField to add it`)
+    }
+    if (fieldKey.allValues && fieldKey.property !== undefined) {
+        throw new KeeperNotationError(`Field '${fieldKey.key}' - a property is set on a single value, ex. '${fieldKey.key}[0][${fieldKey.property}]'`)
+    }
+    if (fieldKey.allValues) {
+        if (!Array.isArray(value)) {
+            throw new KeeperNotationError(`Field '${fieldKey.key}' - all the values are replaced without an index, it expects an array of values, ex. '${fieldKey.key}[0]' sets the first one`)
+        }
+        field.value = value
+        return
+    }
+    const values = field.value || (field.value = [])
+    const index = fieldKey.index ?? 0
+    if (index > values.length) {
+        throw new KeeperNotationError(`Field index out of bounds ${index} > ${values.length} for field '${fieldKey.key}'${inRecord(record)}`)
+    }
+    if (fieldKey.property === undefined) {
+        values[index] = value
+        return
+    }
+    const item = values[index] ?? (values[index] = {})
+    if (typeof item !== 'object') {
+        throw new KeeperNotationError(`Field '${fieldKey.key}' - value ${index} is not an object, it has no property '${fieldKey.property}'`)
+    }
+    item[fieldKey.property] = value
+}
+
+// undefined when the field or the value does not exist, the list of the values (or of their property) without an index
+export const getFieldValue = (record: KeeperRecord | TypedRecordData, fieldKey: string): any => {
+    const key = parseFieldKey(fieldKey)
+    return readValue(findField(record, recordDataOf(record).fields || [], key.key), key)
+}
+
+export const getCustomFieldValue = (record: KeeperRecord | TypedRecordData, fieldKey: string): any => {
+    const key = parseFieldKey(fieldKey)
+    return readValue(findField(record, recordDataOf(record).custom || [], key.key), key)
+}
+
+// the field must exist, the values are replaced by an array without an index, an index equal to the number of values appends a value
+export const setFieldValue = (record: KeeperRecord | TypedRecordData, fieldKey: string, value: any): void => {
+    const key = parseFieldKey(fieldKey)
+    writeValue(record, findField(record, recordDataOf(record).fields || [], key.key), key, value)
+}
+
+export const setCustomFieldValue = (record: KeeperRecord | TypedRecordData, fieldKey: string, value: any): void => {
+    const key = parseFieldKey(fieldKey)
+    writeValue(record, findField(record, recordDataOf(record).custom || [], key.key), key, value)
+}
+
+// Removes a standard or custom field, or a single value of it when the key has an index, ex. 'phone[1]'.
+// Returns false when there is nothing to remove.
+export const removeField = (record: KeeperRecord | TypedRecordData, fieldKey: string): boolean => {
+    const key = parseFieldKey(fieldKey)
+    if (key.property !== undefined) {
+        throw new KeeperNotationError(`Field key '${fieldKey}' is invalid - properties of a value can't be removed`)
+    }
+    const data = recordDataOf(record)
+    const lists = [data.fields || [], data.custom || []]
+    const found = findFieldIndex(record, [...lists[0], ...lists[1]], x => x.type === key.key || x.label === key.key, key.key)
+    if (found < 0) {
+        return false
+    }
+    const list = found < lists[0].length ? lists[0] : lists[1]
+    const index = found < lists[0].length ? found : found - lists[0].length
+    if (key.index === undefined) {
+        list.splice(index, 1)
+        return true
+    }
+    const values = list[index].value || []
+    if (key.index >= values.length) {
+        return false
+    }
+    values.splice(key.index, 1)
+    return true
+}
+
+// Replaces the field of the same type and label or adds it, a standard field unless custom is set
+export const upsertField = (record: KeeperRecord | TypedRecordData, field: KeeperRecordField, custom: boolean = false): void => {
+    const data = recordDataOf(record)
+    const fields: KeeperRecordField[] = custom ? (data.custom || (data.custom = [])) : (data.fields || (data.fields = []))
+    const index = findFieldIndex(record, fields, x => x.type === field.type && (x.label || '') === (field.label || ''), describeField(field))
+    if (index < 0) {
+        fields.push(field)
+    } else {
+        fields[index] = field
+    }
+}
@@ -0,0 +1,202 @@
+import {
+    completeTransaction,
+    getSecrets2,
+    KeeperRecord,
+    KeeperRecordField,
+    PasswordComplexity,
+    SecretManagerOptions,
+    updateSecret2,
+    UpdateOptions,
+    UpdateTransactionType
+} from './keeper'
+import {getField, RecordData, setFieldValue} from './recordTypes'
+import {generatePassword} from './utils'
+import {KeeperConflictError, KeeperNotFoundError} from './errors'
+import {getLogger} from './logger'
+import {parseFieldKey} from './notation'
+
+export type RecordChange = {
+    kind: 'added' | 'removed' | 'changed'
+    property: 'type' | 'title' | 'notes' | 'fields' | 'custom'
+    fieldType?: string      // type and label of the changed field
+    label?: string
+    oldValue?: any          // the value of type, title and notes, the whole field for the fields
+    newValue?: any
+}
+
+const recordDataOf = (record: KeeperRecord | RecordData): RecordData =>
+    (record as KeeperRecord).recordUid !== undefined ? (record as KeeperRecord).data : record as RecordData
+
+// JSON with sorted object keys, so the values compare regardless of the property order
+const canonicalJson = (value: any): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`
+    }
+    if (value !== null && typeof value === 'object') {
+        return `{${Object.keys(value).sort().filter(key => value[key] !== undefined).map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`
+    }
+    return JSON.stringify(value) ?? 'null'
+}
+
+// fields are paired by type and label, the nth field of a type and label with the nth one in the other record
+const diffFields = (property: 'fields' | 'custom', oldFields: KeeperRecordField[], newFields: KeeperRecordField[], changes: RecordChange[]) => {
+    const fieldKey = (field: KeeperRecordField) => `${field.type}\n${field.label || ''}`
+    const unpaired: Record<string, KeeperRecordField[]> = {}
+    for (const field of newFields) {
+        (unpaired[fieldKey(field)] || (unpaired[fieldKey(field)] = [])).push(field)
+    }
+    const fieldChange = (kind: RecordChange['kind'], field: KeeperRecordField): RecordChange => {
+        const change: RecordChange = {kind, property, fieldType: field.type}
+        if (field.label) {
+            change.label = field.label
+        }
+        return change
+    }
+    for (const oldField of oldFields) {
+        const newField = unpaired[fieldKey(oldField)]?.shift()
+        if (!newField) {
+            changes.push({...fieldChange('removed', oldField), oldValue: oldField})
+        } else if (canonicalJson(oldField) !== canonicalJson(newField)) {
+            changes.push({...fieldChange('changed', oldField), oldValue: oldField, newValue: newField})
+        }
+    }
+    for (const newField of newFields) {
+        if (unpaired[fieldKey(newField)]?.includes(newField)) {
+            changes.push({...fieldChange('added', newField), newValue: newField})
+        }
+    }
+}
+
+// Field level changes that turn the first record into the second, an empty list when they are the same
+export const diffRecords = (a: KeeperRecord | RecordData, b: KeeperRecord | RecordData): RecordChange[] => {
+    const oldData = recordDataOf(a)
+    const newData = recordDataOf(b)
+    const changes: RecordChange[] = []
+    for (const property of ['type', 'title', 'notes'] as const) {
+        const oldValue = oldData[property]
+        const newValue = newData[property]
+        if ((oldValue || '') === (newValue || '')) {
+            continue
+        }
+        const kind = !oldValue ? 'added' : !newValue ? 'removed' : 'changed'
+        changes.push({kind, property, oldValue, newValue})
+    }
+    diffFields('fields', oldData.fields || [], newData.fields || [], changes)
+    diffFields('custom', oldData.custom || [], newData.custom || [], changes)
+    return changes
+}
+
+// Reads the current revision of the record, applies the mutator to it and saves the changes.
+// When the record is changed by someone else in the meantime the update is rejected by the server,
+// it is then read again and the mutator is applied again, up to maxRetries times.
+// Returns the applied changes, nothing is saved when the mutator makes no changes.
+export const updateSecretIfUnchanged = async (options: SecretManagerOptions, recordUid: string,
+                                              mutator: (record: KeeperRecord) => void | Promise<void>,
+                                              maxRetries: number = 3, updateOptions?: UpdateOptions): Promise<RecordChange[]> => {
+    // cached results would keep returning the outdated revision
+    const fetchOptions = {...options, secretsCache: undefined, offlineCache: undefined}
+    for (let attempt = 0; ; attempt++) {
+        const secrets = await getSecrets2(fetchOptions, {recordsFilter: [recordUid]})
+        const current = secrets.records.find(x => x.recordUid === recordUid)
+        if (!current) {
+            throw new KeeperNotFoundError(`Record ${recordUid} not found`, {recordUid})
+        }
+        const record: KeeperRecord = JSON.parse(JSON.stringify(current))
+        await mutator(record)
+        const changes = diffRecords(current, record)
+        if (changes.length === 0) {
+            return changes
+        }
+        try {
+            await updateSecret2(options, record, updateOptions)
+            return changes
+        } catch (e) {
+            if (!(e instanceof KeeperConflictError) || attempt >= maxRetries) {
+                throw e
+            }
+            (options.logger || getLogger()).info(`Record ${recordUid} was changed by someone else, applying the changes again`, {recordUid})
+        }
+    }
+}
+
+export type RotationOptions = {
+    // changes the password on the target system, ex. a database user, throw to roll the rotation back
+    apply: (password: string, record: KeeperRecord) => void | Promise<void>
+    // new password, generatePassword honoring the complexity of the password field by default
+    generate?: (complexity?: PasswordComplexity) => string | Promise<string>
+    fieldKey?: string       // password field as in setFieldValue, 'password' by default, without an index the field gets the single new value
+    onStaged?: (record: KeeperRecord) => void | Promise<void>
+    onFinalized?: (record: KeeperRecord) => void | Promise<void>
+    onRolledBack?: (record: KeeperRecord, error: unknown) => void | Promise<void>
+}
+
+export type RotationResult = {
+    // rotated - applied and finalized, rolledBack - apply failed and the vault keeps the old password,
+    // failed - see stage, when it is finalize or rollback the vault and the target system may not match
+    status: 'rotated' | 'rolledBack' | 'failed'
+    stage: 'generate' | 'stage' | 'finalize' | 'rollback'   // the last stage run
+    recordUid: string
+    record?: KeeperRecord   // record with the new password, once it is staged
+    error?: unknown         // error of the failed stage, the apply error for the rollbacks
+    rollbackError?: unknown
+}
+
+// complexity counts are minimums, generatePassword reads 0 as none of the characters
+const generateForComplexity = (complexity?: PasswordComplexity): Promise<string> => {
+    const minimum = (count?: number) => count ? count : null
+    return generatePassword(complexity?.length || undefined, minimum(complexity?.lowercase), minimum(complexity?.caps),
+        minimum(complexity?.digits), minimum(complexity?.special))
+}
+
+// Rotates the password of the record: the new password is saved as a rotation transaction, apply changes it
+// on the target system, then the transaction is finalized, or rolled back when apply fails.
+// Failures are reported in the result, errors thrown by onFinalized and onRolledBack are not caught.
+export const rotateSecret = async (options: SecretManagerOptions, record: KeeperRecord, rotation: RotationOptions): Promise<RotationResult> => {
+    const recordUid = record.recordUid
+    const fieldKey = rotation.fieldKey || 'password'
+    const rotated: KeeperRecord = JSON.parse(JSON.stringify(record))
+    let password: string
+    try {
+        // the field key may have an index or be the label of the password field
+        const key = parseFieldKey(fieldKey)
+        const complexity = getField(record, 'password', key.key === 'password' ? undefined : key.key)?.complexity
+        password = await (rotation.generate ? rotation.generate(complexity) : generateForComplexity(complexity))
+        setFieldValue(rotated, fieldKey, key.allValues && key.property === undefined ? [password] : password)
+    } catch (e) {
+        return {status: 'failed', stage: 'generate', recordUid, error: e}
+    }
+
+    try {
+        await updateSecret2(options, rotated, {transactionType: UpdateTransactionType.Rotation})
+    } catch (e) {
+        return {status: 'failed', stage: 'stage', recordUid, error: e}
+    }
+
+    try {
+        if (rotation.onStaged) {
+            await rotation.onStaged(rotated)
+        }
+        await rotation.apply(password, rotated)
+    } catch (e) {
+        try {
+            await completeTransaction(options, recordUid, true)
+        } catch (rollbackError) {
+            return {status: 'failed', stage: 'rollback', recordUid, record: rotated, error: e, rollbackError}
+        }
+        if (rotation.onRolledBack) {
+            await rotation.onRolledBack(rotated, e)
+        }
+        return {status: 'rolledBack', stage: 'rollback', recordUid, record: rotated, error: e}
+    }
+
+    try {
+        await completeTransaction(options, recordUid)
+    } catch (e) {
+        (options.logger || getLogger()).error(`Password of the record ${recordUid} was changed, but the rotation was not finalized: ${(e as Error).message}`, {recordUid})
+        return {status: 'failed', stage: 'finalize', recordUid, record: rotated, error: e}
+    }
+    if (rotation.onFinalized) {
+        await rotation.onFinalized(rotated)
+    }
+    return {status: 'rotated', stage: 'finalize', recordUid, record: rotated}
+}
@@ -0,0 +1,114 @@
+import {KeeperSecrets, QueryOptions} from './keeper'
+import {getLogger, Logger} from './logger'
+
+// In-memory cache for getSecrets/getSecrets2 results, opt-in via SecretManagerOptions.secretsCache.
+// Entries are keyed by the query options. Concurrent identical calls share a single request,
+// results older than ttl are served while a refresh runs in the background for up to staleTtl more.
+export type SecretsCache = {
+    get(queryOptions: QueryOptions | undefined, fetch: () => Promise<CachedSecrets>, logger?: Logger): Promise<CachedSecrets>
+    invalidate(): void
+}
+
+// The record, folder and file keys are kept with the records - the key cache of the client is cleaned
+// by the other calls, while the cached records still need their keys to be updated or to download their files.
+export type CachedSecrets = {
+    secrets: KeeperSecrets
+    keys: Record<string, any>   // raw bytes on node, CryptoKey objects in the browser
+}
+
+type CacheEntry = {
+    cached?: CachedSecrets
+    fetchedOn: number
+    pending?: Promise<CachedSecrets>
+}
+
+const getCacheKey = (queryOptions?: QueryOptions): string => JSON.stringify([
+    queryOptions?.recordsFilter ? [...queryOptions.recordsFilter].sort() : null,
+    queryOptions?.foldersFilter ? [...queryOptions.foldersFilter].sort() : null,
+    !!queryOptions?.requestLinks,
+    !!queryOptions?.strict
+])
+
+// only the keys held as bytes can be copied and zero-filled, CryptoKey objects can only be dereferenced.
+// Buffer.slice() would share the memory, the copy must not be zero-filled along with the original
+export const copyKey = (key: any): any => key instanceof Uint8Array ? new Uint8Array(key) : key
+
+export const wipeKeys = (keys: Record<string, any>) => {
+    for (const keyId in keys) {
+        if (keys[keyId] instanceof Uint8Array) {
+            keys[keyId].fill(0)
+        }
+    }
+}
+
+// callers get their own copy of the records, so editing a record before updateSecret doesn't leak into the cache,
+// and of the keys, so the cache and the key cache of the client can zero-fill theirs independently
+const copyCachedSecrets = (cached: CachedSecrets): CachedSecrets => {
+    const keys: Record<string, any> = {}
+    for (const keyId in cached.keys) {
+        keys[keyId] = copyKey(cached.keys[keyId])
+    }
+    return {
+        secrets: {...cached.secrets, records: JSON.parse(JSON.stringify(cached.secrets.records))},
+        keys
+    }
+}
+
+export const createSecretsCache = (ttl: number, staleTtl: number = 0): SecretsCache => {
+    let entries: Record<string, CacheEntry> = {}
+    let generation = 0
+
+    const refresh = (cacheKey: string, fetch: () => Promise<CachedSecrets>): Promise<CachedSecrets> => {
+        const entry = entries[cacheKey] || (entries[cacheKey] = {fetchedOn: 0})
+        if (entry.pending) {
+            return entry.pending
+        }
+        const fetchGeneration = generation
+        const pending = fetch().then(fetched => {
+            entry.pending = undefined
+            // results of the requests started before invalidate() are not cached
+            if (fetchGeneration === generation) {
+                if (entry.cached) {
+                    wipeKeys(entry.cached.keys)
+                }
+                entry.cached = copyCachedSecrets(fetched)
+                entry.fetchedOn = Date.now()
+            }
+            return fetched
+        }, e => {
+            entry.pending = undefined
+            throw e
+        })
+        entry.pending = pending
+        return pending
+    }
+
+    return {
+        get: async (queryOptions, fetch, logger) => {
+            const cacheKey = getCacheKey(queryOptions)
+            const entry = entries[cacheKey]
+            if (entry?.cached) {
+                const age = Date.now() - entry.fetchedOn
+                if (age < ttl) {
+                    return copyCachedSecrets(entry.cached)
+                }
+                if (age < ttl + staleTtl) {
+                    refresh(cacheKey, fetch).catch(e => {
+                        (logger || getLogger()).warn(`Background refresh of the secrets cache failed: ${e.constructor.name}, ${e.message}`, {error: e.constructor.name})
+                    })
+                    return copyCachedSecrets(entry.cached)
+                }
+            }
+            return copyCachedSecrets(await refresh(cacheKey, fetch))
+        },
+        invalidate: () => {
+            generation++
+            for (const cacheKey in entries) {
+                if (entries[cacheKey].cached) {
+                    wipeKeys(entries[cacheKey].cached!.keys)
+                }
+            }
+            entries = {}
+        }
+    }
+}
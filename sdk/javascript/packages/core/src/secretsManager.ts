@@ -0,0 +1,133 @@
+import {createKeyCache, KeyValueStorage, loadJsonConfig, platform} from './platform'
+import {
+    completeTransaction,
+    CreateOptions,
+    createFolder,
+    createSecret2,
+    deleteFolder,
+    deleteSecret,
+    downloadFile,
+    downloadThumbnail,
+    getFolders,
+    getNotationResults,
+    getSecrets2,
+    initializeStorage,
+    KeeperFile,
+    KeeperFileUpload,
+    KeeperFolder,
+    KeeperRecord,
+    KeeperSecrets,
+    QueryOptions,
+    SecretManagerOptions,
+    SecretsManagerDeleteResponse,
+    tryGetNotationResults,
+    updateFolder,
+    updateSecret2,
+    UpdateOptions,
+    uploadFile
+} from './keeper'
+
+export type SecretsManagerClientOptions = Omit<SecretManagerOptions, 'storage'> & {
+    keyCacheMaxAge?: number         // ms, expires the keys of the client's own cache, ignored when keyCache is provided
+}
+
+// Object-oriented client bound to a single configuration.
+// Holds the storage and the client options (transport, retry policy, logger, signal)
+// so they don't have to be passed to every call.
+// Each client gets its own key cache unless one is passed in the options,
+// so several clients with different configurations can be used side by side.
+export class SecretsManager {
+    readonly options: SecretManagerOptions
+
+    constructor(storage: KeyValueStorage, clientOptions: SecretsManagerClientOptions = {}) {
+        const {keyCacheMaxAge, ...options} = clientOptions
+        this.options = {...options, storage, keyCache: options.keyCache || createKeyCache(keyCacheMaxAge)}
+    }
+
+    // binds the storage with a one time token, no-op if the storage is already bound with the same token
+    static async fromToken(storage: KeyValueStorage, oneTimeToken: string, hostName?: string, clientOptions?: SecretsManagerClientOptions): Promise<SecretsManager> {
+        const client = new SecretsManager(storage, clientOptions)
+        await initializeStorage(storage, oneTimeToken, hostName, client.options.keyCache)
+        return client
+    }
+
+    // config is a JSON or base64 encoded JSON string, see loadJsonConfig
+    static fromConfig(config: string, clientOptions?: SecretsManagerClientOptions): SecretsManager {
+        return new SecretsManager(loadJsonConfig(config), clientOptions)
+    }
+
+    get storage(): KeyValueStorage {
+        return this.options.storage
+    }
+
+    // zero-fills and drops all keys held by the client, they are loaded from the storage again on the next call
+    dispose(): void {
+        platform.cleanKeyCache(this.options.keyCache)
+    }
+
+    async getSecrets(queryOptions?: QueryOptions): Promise<KeeperSecrets> {
+        return getSecrets2(this.options, queryOptions)
+    }
+
+    async getSecretsByTitle(recordTitle: string): Promise<KeeperRecord[]> {
+        const secrets = await this.getSecrets()
+        return secrets.records.filter(record => record.data.title === recordTitle)
+    }
+
+    async getSecretByTitle(recordTitle: string): Promise<KeeperRecord | undefined> {
+        const secrets = await this.getSecrets()
+        return secrets.records.find(record => record.data.title === recordTitle)
+    }
+
+    async getFolders(): Promise<KeeperFolder[]> {
+        return getFolders(this.options)
+    }
+
+    async createSecret(createOptions: CreateOptions, recordData: any): Promise<string> {
+        return createSecret2(this.options, createOptions, recordData)
+    }
+
+    async updateSecret(record: KeeperRecord, updateOptions?: UpdateOptions): Promise<void> {
+        return updateSecret2(this.options, record, updateOptions)
+    }
+
+    async completeTransaction(recordUid: string, rollback: boolean = false): Promise<void> {
+        return completeTransaction(this.options, recordUid, rollback)
+    }
+
+    async deleteSecrets(recordUids: string[]): Promise<SecretsManagerDeleteResponse> {
+        return deleteSecret(this.options, recordUids)
+    }
+
+    async createFolder(createOptions: CreateOptions, folderName: string): Promise<string> {
+        return createFolder(this.options, createOptions, folderName)
+    }
+
+    async updateFolder(folderUid: string, folderName: string): Promise<void> {
+        return updateFolder(this.options, folderUid, folderName)
+    }
+
+    async deleteFolders(folderUids: string[], forceDeletion?: boolean): Promise<SecretsManagerDeleteResponse> {
+        return deleteFolder(this.options, folderUids, forceDeletion)
+    }
+
+    async uploadFile(ownerRecord: KeeperRecord, file: KeeperFileUpload): Promise<string> {
+        return uploadFile(this.options, ownerRecord, file)
+    }
+
+    async downloadFile(file: KeeperFile): Promise<Uint8Array> {
+        return downloadFile(file, this.options.signal, this.options.keyCache)
+    }
+
+    async downloadThumbnail(file: KeeperFile): Promise<Uint8Array> {
+        return downloadThumbnail(file, this.options.signal, this.options.keyCache)
+    }
+
+    async getNotation(notation: string): Promise<string[]> {
+        return getNotationResults(this.options, notation)
+    }
+
+    async tryGetNotation(notation: string): Promise<string[]> {
+        return tryGetNotationResults(this.options, notation)
+    }
+}
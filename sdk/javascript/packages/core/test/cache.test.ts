@@ -0,0 +1,112 @@
+import {
+    createKeyCache,
+    createSecretsCache,
+    deleteSecret,
+    fileOfflineCache,
+    getFolders,
+    getSecrets2,
+    platform,
+    SecretManagerOptions,
+    updateSecret
+} from '../'
+import {decryptRecordData, fakeServer, recordResponse} from './fixtures'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+const prepareOptions = async (onQuery: (route: string) => object): Promise<SecretManagerOptions> =>
+    (await fakeServer(onQuery)).options
+
+test('Caches and coalesces identical queries', async () => {
+    let calls = 0
+    const options = await prepareOptions(() => {
+        calls++
+        return {appData: undefined, records: []}
+    })
+    options.secretsCache = createSecretsCache(60000)
+    await Promise.all([getSecrets2(options), getSecrets2(options)])
+    expect(calls).toBe(1)
+    await getSecrets2(options)
+    expect(calls).toBe(1)
+    await getSecrets2(options, {recordsFilter: ['RECORD_UID']})
+    expect(calls).toBe(2)
+})
+
+test('Serves stale results while revalidating', async () => {
+    let calls = 0
+    const options = await prepareOptions(() => ({records: [], extra: {calls: ++calls}}))
+    options.secretsCache = createSecretsCache(10, 60000)
+    await getSecrets2(options)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    const stale = await getSecrets2(options)
+    expect(stale.extra).toEqual({calls: 1})
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(calls).toBe(2)
+    const fresh = await getSecrets2(options)
+    expect(fresh.extra).toEqual({calls: 2})
+})
+
+test('Invalidates after changes', async () => {
+    const routes: string[] = []
+    const options = await prepareOptions(route => {
+        routes.push(route)
+        return {records: []}
+    })
+    options.secretsCache = createSecretsCache(60000)
+    await getSecrets2(options)
+    await deleteSecret(options, ['RECORD_UID'])
+    await getSecrets2(options)
+    expect(routes).toEqual(['get_secret', 'delete_secret', 'get_secret'])
+})
+
+test('Keeps the record keys of the cached records', async () => {
+    const recordKey = platform.getRandomBytes(32)
+    const routes: string[] = []
+    let updated: any
+    const {options, appKey} = await fakeServer(async (route, request) => {
+        routes.push(route)
+        if (route === 'get_secret') {
+            return {records: [await recordResponse('RECORD_UID', {title: 'Database', type: 'login', fields: []}, 1, recordKey, appKey)]}
+        }
+        if (route === 'update_secret') {
+            updated = await decryptRecordData(request.data, recordKey)
+        }
+        return {}
+    })
+    for (const keyCache of [undefined, createKeyCache()]) {
+        const cachedOptions = {...options, keyCache, secretsCache: createSecretsCache(60000)}
+        await getSecrets2(cachedOptions)
+        await getFolders(cachedOptions)
+        const record = (await getSecrets2(cachedOptions)).records[0]
+        record.data.title = 'Production Database'
+        await updateSecret(cachedOptions, record)
+        expect(updated.title).toBe('Production Database')
+    }
+    expect(routes).toEqual(['get_secret', 'get_folders', 'update_secret', 'get_secret', 'get_folders', 'update_secret'])
+})
+
+test('Falls back to the offline cache', async () => {
+    let online = true
+    const options = await prepareOptions(() => ({records: [], extra: {online: true}}))
+    const queryFunction = options.queryFunction!
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ksm-'))
+    options.offlineCache = fileOfflineCache(directory)
+    options.queryFunction = (...args) => online ? queryFunction(...args) : Promise.reject(new Error('ECONNREFUSED'))
+
+    const renameSync = jest.spyOn(fs, 'renameSync')
+    await getSecrets2(options)
+    await deleteSecret(options, ['RECORD_UID'])
+    expect(renameSync).toHaveBeenCalledTimes(1)
+    renameSync.mockRestore()
+    const files = fs.readdirSync(directory)
+    expect(files).toHaveLength(1)
+    expect(fs.statSync(path.join(directory, files[0])).mode & 0o777).toBe(0o600)
+    expect(fs.readFileSync(path.join(directory, files[0])).toString()).not.toContain('online')
+
+    online = false
+    const secrets = await getSecrets2(options)
+    expect(secrets.extra).toEqual({online: true})
+    await expect(getSecrets2(options, {recordsFilter: ['RECORD_UID']})).rejects.toThrow('ECONNREFUSED')
+    await expect(getSecrets2({...options, offlineCache: fileOfflineCache(directory, -1)})).rejects.toThrow('ECONNREFUSED')
+    fs.rmSync(directory, {recursive: true})
+})
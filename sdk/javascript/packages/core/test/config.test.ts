@@ -0,0 +1,142 @@
+import {
+    addProfile,
+    copyStorage,
+    deleteProfile,
+    diagnose,
+    exportConfig,
+    getDefaultProfile,
+    initializeStorage,
+    inMemoryStorage,
+    jsonDocumentStorage,
+    KeyValueStorage,
+    listProfiles,
+    loadJsonConfig,
+    platform,
+    profiledStorage,
+    renameProfile,
+    setDefaultProfile,
+    validateConfig
+} from '../'
+import {errorResponse, prepareStorage} from './fixtures'
+
+test('Exports a bound config', async () => {
+    const storage = await prepareStorage()
+    await expect(exportConfig(storage)).rejects.toThrow('not bound yet')
+
+    const unbound = JSON.parse(await exportConfig(storage, {format: 'json', allowUnbound: true}))
+    expect(Object.keys(unbound).sort()).toEqual(['clientId', 'clientKey', 'hostname', 'privateKey'])
+
+    await storage.saveBytes('appKey', platform.getRandomBytes(32))
+    await storage.saveString('serverPublicKeyId', '10')
+    const exported = await exportConfig(storage)
+    const loaded = loadJsonConfig(exported)
+    expect(await loaded.getBytes('privateKey')).toEqual(await storage.getBytes('privateKey'))
+    expect(await loaded.getString('serverPublicKeyId')).toBe('10')
+    expect(await loaded.getString('clientKey')).toBeUndefined()
+})
+
+test('Copies a config between storages', async () => {
+    await expect(copyStorage(inMemoryStorage({hostname: 'keepersecurity.com'}), inMemoryStorage({})))
+        .rejects.toThrow('missing clientId, privateKey, appKey')
+
+    const config = {hostname: 'keepersecurity.com', clientId: 'CLIENT_ID', privateKey: 'AAAA', appKey: 'AQID'}
+    const data = {}
+    await copyStorage(inMemoryStorage(config), inMemoryStorage(data))
+    expect(data).toEqual(config)
+})
+
+test('Validates a config', async () => {
+    const storage = inMemoryStorage({})
+    await initializeStorage(storage, 'EU:ONE_TIME_TOKEN')
+    const unbound = await validateConfig(storage)
+    expect(unbound).toMatchObject({valid: true, bound: false, region: 'EU'})
+    expect(unbound.checks.find(x => x.name === 'binding')!.status).toBe('warning')
+    expect(unbound.checks.find(x => x.name === 'privateKey')!.message).toBe('Private key matches the stored public key')
+
+    // custom platforms may not implement the signature verification
+    const verify = platform.verify
+    delete platform.verify
+    try {
+        expect((await validateConfig(storage)).checks.find(x => x.name === 'privateKey')!.status).toBe('warning')
+    } finally {
+        platform.verify = verify
+    }
+
+    // the private part of the key is replaced, the public part stays
+    const privateKey = (await storage.getBytes('privateKey'))!
+    privateKey.set(platform.getRandomBytes(32), 36)
+    await storage.saveBytes('privateKey', privateKey)
+    await storage.saveString('hostname', 'example.com')
+    await storage.delete('clientId')
+    const broken = await validateConfig(storage)
+    expect(broken.valid).toBe(false)
+    expect(broken.checks.map(x => [x.name, x.status])).toEqual([
+        ['requiredKeys', 'error'],
+        ['privateKey', 'error'],
+        ['hostname', 'warning'],
+        ['binding', 'warning']
+    ])
+    expect(broken.checks[0].message).toBe('Missing clientId')
+    expect(broken.checks[1].message).toBe('Private key does not match the stored public key')
+
+    await storage.saveBytes('privateKey', privateKey.slice(0, 40))
+    expect((await validateConfig(storage)).checks[1]).toMatchObject({status: 'error', message: expect.stringMatching(/^Private key can't be parsed/)})
+})
+
+test('Diagnoses the connection', async () => {
+    const storage = await prepareStorage(platform.getRandomBytes(32))
+    const report = await diagnose({
+        storage,
+        queryFunction: async () => errorResponse(403, {result_code: 'access_denied', message: 'Signature is invalid'})
+    }, true)
+    expect(report.valid).toBe(false)
+    expect(report.checks.pop()).toEqual({name: 'connection', status: 'error', message: 'KeeperAuthError: Signature is invalid (access_denied)'})
+})
+
+test('Keeps several profiles in one storage', async () => {
+    const data: any = {}
+    const base = inMemoryStorage(data)
+    await addProfile(base, 'dev', 'US:DEV_TOKEN')
+    await addProfile(base, 'prod', 'EU:PROD_TOKEN')
+    await expect(addProfile(base, 'dev', 'US:DEV_TOKEN')).rejects.toThrow('already exists')
+    expect(await listProfiles(base)).toEqual(['dev', 'prod'])
+    expect(await profiledStorage(base).getString('hostname')).toBe('keepersecurity.com')
+    expect(data.profiles.prod.hostname).toBe('keepersecurity.eu')
+
+    await setDefaultProfile(base, 'prod')
+    expect(await profiledStorage(base).getString('hostname')).toBe('keepersecurity.eu')
+    const privateKey = await profiledStorage(base, 'prod').getBytes('privateKey')
+
+    await renameProfile(base, 'prod', 'production')
+    expect(await listProfiles(base)).toEqual(['dev', 'production'])
+    expect(await getDefaultProfile(base)).toBe('production')
+    expect(await profiledStorage(base).getBytes('privateKey')).toEqual(privateKey)
+    expect(data.profiles.prod).toBeUndefined()
+
+    await deleteProfile(base, 'production')
+    expect(await listProfiles(base)).toEqual(['dev'])
+    await expect(profiledStorage(base).getString('hostname')).rejects.toThrow('Default profile is not set')
+})
+
+test('Renames and deletes profiles at once', async () => {
+    let document: any = {}
+    const storage = jsonDocumentStorage({
+        read: async () => JSON.parse(JSON.stringify(document)),
+        write: async data => {
+            document = data
+        }
+    })
+    await addProfile(storage, 'dev', 'US:DEV_TOKEN')
+    await addProfile(storage, 'prod', 'EU:PROD_TOKEN')
+    const saved = JSON.stringify(document)
+
+    // fails in the middle, after the profile is copied
+    const failing: KeyValueStorage = {
+        ...storage,
+        delete: key => key.startsWith('profiles/prod/') ? Promise.reject(new Error('Disk is full')) : storage.delete(key)
+    }
+    await expect(renameProfile(failing, 'prod', 'production')).rejects.toThrow('Disk is full')
+    await expect(deleteProfile(failing, 'prod')).rejects.toThrow('Disk is full')
+    expect(JSON.stringify(document)).toBe(saved)
+    expect(await listProfiles(storage)).toEqual(['dev', 'prod'])
+})
@@ -0,0 +1,73 @@
+import {
+    initializeStorage,
+    inMemoryStorage,
+    KeeperHttpResponse,
+    KeyValueStorage,
+    platform,
+    SecretManagerOptions,
+    silentLogger,
+    TransmissionKey
+} from '../'
+
+// storage initialized with a one time token, the app key is saved as if the client was bound already
+export const prepareStorage = async (appKey?: Uint8Array): Promise<KeyValueStorage> => {
+    const storage = inMemoryStorage({})
+    await initializeStorage(storage, 'US:ONE_TIME_TOKEN')
+    if (appKey) {
+        await storage.saveBytes('appKey', appKey)
+    }
+    return storage
+}
+
+export const encryptedResponse = async (response: object, transmissionKey: TransmissionKey): Promise<KeeperHttpResponse> => ({
+    statusCode: 200,
+    headers: {},
+    data: await platform.encryptWithKey(platform.stringToBytes(JSON.stringify(response)), transmissionKey.key)
+})
+
+export const errorResponse = (statusCode: number, error: object, headers: any = {}): KeeperHttpResponse => ({
+    statusCode: statusCode,
+    headers: headers,
+    data: platform.stringToBytes(JSON.stringify(error))
+})
+
+const isHttpResponse = (response: object): response is KeeperHttpResponse => 'statusCode' in response
+
+// fake Secrets Manager API - the handler gets the route with the decrypted request and returns the response object,
+// a KeeperHttpResponse is sent as is
+export const fakeServer = async (handler: (route: string, request: any) => object | Promise<object>): Promise<{
+    options: SecretManagerOptions,
+    appKey: Uint8Array
+}> => {
+    const appKey = platform.getRandomBytes(32)
+    const storage = await prepareStorage(appKey)
+    const queryFunction = async (url: string, transmissionKey: TransmissionKey, payload: { payload: Uint8Array }) => {
+        const request = JSON.parse(platform.bytesToString(await platform.decryptWithKey(payload.payload, transmissionKey.key)))
+        const response = await handler(url.split('/').pop()!, request)
+        return isHttpResponse(response) ? response : encryptedResponse(response, transmissionKey)
+    }
+    return {options: {storage, queryFunction, logger: silentLogger}, appKey}
+}
+
+// record as the server returns it, the record key is encrypted with the app key
+export const recordResponse = async (recordUid: string, data: object, revision: number, recordKey: Uint8Array, appKey: Uint8Array) => ({
+    recordUid: recordUid,
+    recordKey: platform.bytesToBase64(await platform.encryptWithKey(recordKey, appKey)),
+    data: platform.bytesToBase64(await platform.encryptWithKey(platform.stringToBytes(JSON.stringify(data)), recordKey)),
+    revision: revision
+})
+
+// file attached to a record, the file key is encrypted with the record key
+export const fileResponse = async (fileUid: string, data: object, fileKey: Uint8Array, recordKey: Uint8Array, url: string) => ({
+    fileUid: fileUid,
+    fileKey: platform.bytesToBase64(await platform.encryptWithKey(fileKey, recordKey)),
+    data: platform.bytesToBase64(await platform.encryptWithKey(platform.stringToBytes(JSON.stringify(data)), fileKey)),
+    url: url
+})
+
+export const fromWebSafe64 = (data: string): Uint8Array =>
+    platform.base64ToBytes(data.replace(/-/g, '+').replace(/_/g, '/') + '=='.slice(0, (4 - data.length % 4) % 4))
+
+// record data sent by update_secret
+export const decryptRecordData = async (data: string, recordKey: Uint8Array): Promise<any> =>
+    JSON.parse(platform.bytesToString(await platform.decryptWithKey(fromWebSafe64(data), recordKey)))
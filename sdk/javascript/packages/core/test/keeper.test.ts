@@ -3,7 +3,7 @@ import {
     getSecrets,
     initializeStorage,
     platform,
-    localConfigStorage, SecretManagerOptions, inMemoryStorage, loadJsonConfig, getTotpCode, generatePassword
+    localConfigStorage, SecretManagerOptions, inMemoryStorage, loadJsonConfig, getTotpCode, generatePassword, KeeperAuthError
 } from '../'
 
 import * as fs from 'fs'
@@ -37,13 +37,17 @@ test('Get secrets e2e', async () => {
         queryFunction: postStub
     }
     const secrets = await getSecrets(options)
-    expect(secrets.records[1].data.fields[2].value[0]).toBe('Lex1S++Wx6g^,LC.(Vp<')
+    expect(secrets.records[1].data.fields[2].value?.[0]).toBe('Lex1S++Wx6g^,LC.(Vp<')
     try {
         await getSecrets(options)
         fail('Did not throw')
     } catch (e) {
-        const message = (e as Error).message
-        expect(JSON.parse(message).message).toBe('Signature is invalid')
+        expect(e).toBeInstanceOf(KeeperAuthError)
+        const error = e as KeeperAuthError
+        expect(error.message).toBe('Signature is invalid')
+        expect(error.statusCode).toBe(403)
+        expect(error.resultCode).toBe('access_denied')
+        expect(error.route).toBe('get_secret')
     }
 })
 
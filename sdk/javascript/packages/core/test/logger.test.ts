@@ -0,0 +1,66 @@
+import {
+    getNotationResults,
+    getSecrets2,
+    platform,
+    SecretManagerOptions,
+    setLogger,
+    silentLogger
+} from '../'
+import {fakeServer, recordResponse} from './fixtures'
+
+const recordUid = 'k9qMpcO0aszz9w3li5XbaQ'
+const notation = `keeper://${recordUid}/field/name[][middle]`
+
+// a record without the middle name and a record that fails to decrypt
+const prepareOptions = async (): Promise<SecretManagerOptions> => {
+    const recordKey = platform.getRandomBytes(32)
+    const {options, appKey} = await fakeServer(async () => ({
+        records: [
+            await recordResponse(recordUid, {title: 'Name', type: 'login', fields: [{type: 'name', value: [{first: 'Jenny'}]}]}, 1, recordKey, appKey),
+            {recordUid: 'BROKEN_RECORD_UID', recordKey: 'AAAA', data: 'AAAA', revision: 1}
+        ]
+    }))
+    return {...options, logger: undefined}
+}
+
+afterEach(() => {
+    jest.restoreAllMocks()
+    setLogger()
+})
+
+test('Default logger writes to the console as before', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    const options = await prepareOptions()
+    expect(await getNotationResults(options, notation)).toEqual([])
+    expect(log.mock.calls.map(x => x[0])).toEqual([
+        `Notation error - value object has no property 'middle'`,
+        `Notation warning - extracted 0 out of 1 values for 'middle' property.`
+    ])
+    expect(warn).not.toHaveBeenCalled()
+    expect(error.mock.calls[0][0]).toMatch(/^Record BROKEN_RECORD_UID skipped due to error/)
+})
+
+test('Uses the logger set for the process unless the options have one', async () => {
+    const log = jest.spyOn(console, 'log')
+    const error = jest.spyOn(console, 'error')
+    const info = jest.fn()
+    const optionsError = jest.fn()
+    setLogger({...silentLogger, info})
+    const options = await prepareOptions()
+    await getNotationResults(options, notation)
+    expect(info).toHaveBeenCalledTimes(2)
+    expect(info.mock.calls[0][1]).toEqual({recordUid})
+
+    await getSecrets2({...options, logger: {...silentLogger, error: optionsError}})
+    expect(optionsError).toHaveBeenCalledTimes(1)
+    expect(optionsError.mock.calls[0][1]).toMatchObject({recordUid: 'BROKEN_RECORD_UID'})
+
+    setLogger(silentLogger)
+    await getNotationResults(options, notation)
+    await getSecrets2(options)
+    expect(info).toHaveBeenCalledTimes(2)
+    expect(log).not.toHaveBeenCalled()
+    expect(error).not.toHaveBeenCalled()
+})
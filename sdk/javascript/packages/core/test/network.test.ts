@@ -0,0 +1,114 @@
+import {
+    getFolders,
+    KeeperAbortError,
+    KeeperTimeoutError,
+    platform
+} from '../'
+import {browserPlatform} from '../src/browser/browserPlatform'
+import * as errors from '../src/errors'
+import {prepareStorage} from './fixtures'
+import * as https from 'https'
+import {EventEmitter} from 'events'
+
+jest.mock('https', () => {
+    return {
+        request: jest.fn()
+    }
+})
+
+// request that never gets a response
+class PendingRequest extends EventEmitter {
+    destroyed = false
+    write() {
+    }
+    end() {
+    }
+    destroy(error?: Error) {
+        this.destroyed = true
+        if (error) {
+            this.emit('error', error)
+        }
+        this.emit('close')
+    }
+}
+
+let requests: PendingRequest[]
+
+beforeEach(() => {
+    requests = []
+    const mockedRequest = https.request as unknown as jest.Mock
+    mockedRequest.mockImplementation(() => {
+        const request = new PendingRequest()
+        requests.push(request)
+        return request
+    })
+})
+
+afterEach(() => {
+    jest.restoreAllMocks()
+})
+
+test('Aborts node requests in flight', async () => {
+    const controller = new AbortController()
+    const post = platform.post('https://keepersecurity.com/api/rest/sm/v1/get_secret', new Uint8Array(), {}, false, undefined, controller.signal)
+    const get = platform.get('https://keepersecurity.com/files/FILE_UID', {}, controller.signal)
+    controller.abort()
+    await expect(post).rejects.toBeInstanceOf(KeeperAbortError)
+    await expect(get).rejects.toBeInstanceOf(KeeperAbortError)
+    expect(requests.map(x => x.destroyed)).toEqual([true, true])
+
+    await expect(platform.get('https://keepersecurity.com/files/FILE_UID', {}, controller.signal)).rejects.toBeInstanceOf(KeeperAbortError)
+    expect(requests[2].destroyed).toBe(true)
+})
+
+test('Times out node requests', async () => {
+    await expect(platform.post('https://keepersecurity.com/api/rest/sm/v1/get_secret', new Uint8Array(), {}, false, 10))
+        .rejects.toBeInstanceOf(KeeperTimeoutError)
+    expect(requests[0].destroyed).toBe(true)
+
+    // the response keeps coming a byte at a time and never ends
+    const mockedRequest = https.request as unknown as jest.Mock
+    mockedRequest.mockImplementationOnce((url, options, callback) => {
+        const request = new PendingRequest()
+        requests.push(request)
+        const response = new EventEmitter()
+        const sending = setInterval(() => response.emit('data', Buffer.from([0])), 5)
+        request.on('close', () => clearInterval(sending))
+        setTimeout(() => callback(response), 0)
+        return request
+    })
+    await expect(platform.post('https://keepersecurity.com/api/rest/sm/v1/get_secret', new Uint8Array(), {}, false, 50))
+        .rejects.toThrow('Request timed out after 50 ms')
+    expect(requests[1].destroyed).toBe(true)
+
+    const options = {storage: await prepareStorage(platform.getRandomBytes(32)), retryPolicy: {timeout: 10}}
+    await expect(getFolders(options)).rejects.toThrow('Request timed out after 10 ms')
+})
+
+// fetch that answers only by rejecting on abort, like the browser does
+const pendingFetch = () => jest.spyOn(global, 'fetch').mockImplementation((url, init) => new Promise((resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')))
+}))
+
+test('Aborts browser requests in flight', async () => {
+    const fetch = pendingFetch()
+    const controller = new AbortController()
+    const post = browserPlatform.post('https://keepersecurity.com/api/rest/sm/v1/get_secret', new Uint8Array(), {}, false, undefined, controller.signal)
+    const get = browserPlatform.get('https://keepersecurity.com/files/FILE_UID', {}, controller.signal)
+    controller.abort()
+    await expect(post).rejects.toBeInstanceOf(errors.KeeperAbortError)
+    await expect(get).rejects.toBeInstanceOf(errors.KeeperAbortError)
+    expect(fetch).toHaveBeenCalledTimes(2)
+
+    await expect(browserPlatform.post('https://keepersecurity.com/api/rest/sm/v1/get_secret', new Uint8Array(), {}, false, undefined, controller.signal))
+        .rejects.toBeInstanceOf(errors.KeeperAbortError)
+    expect(fetch).toHaveBeenCalledTimes(2)
+})
+
+test('Times out browser requests', async () => {
+    pendingFetch()
+    const controller = new AbortController()
+    const post = browserPlatform.post('https://keepersecurity.com/api/rest/sm/v1/get_secret', new Uint8Array(), {}, false, 10, controller.signal)
+    await expect(post).rejects.toBeInstanceOf(errors.KeeperTimeoutError)
+    await expect(post).rejects.toThrow('Request timed out after 10 ms')
+})
@@ -1,8 +1,13 @@
 import {
+    createKeyCache,
     KeeperSecrets,
+    getNotationResults,
     getValue,
-    parseNotation
+    parseNotation,
+    platform,
+    SecretsManager
 } from '../'
+import {fakeServer, fileResponse, fromWebSafe64, recordResponse} from './fixtures'
 
 const recordUID = 'k9qMpcO0aszz9w3li5XbaQ'
 
@@ -161,3 +166,55 @@ test('NotationParser', () => {
     expect(res[2].index1?.[0]).toBe("0")
     expect(res[2].index2?.[0]).toBe("middle")
 })
+
+test('Notation downloads files with the keys of the client', async () => {
+    const recordKey = platform.getRandomBytes(32)
+    const fileKey = platform.getRandomBytes(32)
+    const {options, appKey} = await fakeServer(async () => ({
+        records: [{
+            ...await recordResponse(recordUID, {title: 'Certificates', type: 'file', fields: []}, 1, recordKey, appKey),
+            files: [await fileResponse('HKGdx7dSrtuTfA67wiEZkw', {name: 'cert.pem', title: 'Certificate'}, fileKey, recordKey, 'https://files/cert.pem')]
+        }]
+    }))
+    const contents = platform.stringToBytes('-----BEGIN CERTIFICATE-----')
+    const get = platform.get
+    platform.get = async () => ({statusCode: 200, headers: {}, data: await platform.encryptWithKey(contents, fileKey)})
+    try {
+        const client = new SecretsManager(options.storage, {queryFunction: options.queryFunction, logger: options.logger})
+        const value = await client.getNotation(`keeper://${recordUID}/file/cert.pem`)
+        expect(fromWebSafe64(value[0])).toEqual(contents)
+    } finally {
+        platform.get = get
+    }
+})
+
+test('Notation downloads files before the keys are wiped', async () => {
+    const recordKey = platform.getRandomBytes(32)
+    const fileKey = platform.getRandomBytes(32)
+    const fileUid = 'HKGdx7dSrtuTfA67wiEZkw'
+    const {options, appKey} = await fakeServer(async () => ({
+        records: [{
+            ...await recordResponse(recordUID, {title: 'Certificates', type: 'file', fields: [{type: 'login', value: ['admin']}]}, 1, recordKey, appKey),
+            files: [await fileResponse(fileUid, {name: 'cert.pem', title: 'Certificate'}, fileKey, recordKey, 'https://files/cert.pem')]
+        }]
+    }))
+    const keyCache = createKeyCache()
+    const wipingOptions = {...options, keyCache, wipeKeysAfterFetch: true}
+    const contents = platform.stringToBytes('-----BEGIN CERTIFICATE-----')
+    const get = platform.get
+    platform.get = async () => ({statusCode: 200, headers: {}, data: await platform.encryptWithKey(contents, fileKey)})
+    try {
+        const value = await getNotationResults(wipingOptions, `keeper://${recordUID}/file/cert.pem`)
+        expect(fromWebSafe64(value[0])).toEqual(contents)
+        expect(keyCache.get(fileUid)).toBeUndefined()
+        expect(keyCache.get(recordUID)).toBeUndefined()
+
+        await expect(getNotationResults(wipingOptions, `keeper://${recordUID}/file/missing.pem`)).rejects.toThrow('has no files matching')
+        expect(keyCache.get(fileUid)).toBeUndefined()
+
+        expect(await getNotationResults(wipingOptions, `keeper://${recordUID}/field/login`)).toEqual(['admin'])
+        expect(keyCache.get(recordUID)).toBeUndefined()
+    } finally {
+        platform.get = get
+    }
+})
@@ -0,0 +1,332 @@
+import {
+    diffRecords,
+    getCustomField,
+    getCustomFieldValue,
+    getCustomFieldByLabel,
+    getField,
+    getFieldValue,
+    getNotationResults,
+    getSecrets2,
+    getTypedRecordData,
+    HostField,
+    isKnownRecordType,
+    isRecordOfType,
+    KeeperConflictError,
+    KeeperNotationError,
+    KeeperRecord,
+    KeeperValidationError,
+    KeeperRecordField,
+    PasswordField,
+    platform,
+    RecordBuilder,
+    RecordData,
+    recordTemplates,
+    removeField,
+    rotateSecret,
+    setCustomFieldValue,
+    setFieldValue,
+    TextField,
+    updateSecretIfUnchanged,
+    upsertField,
+    validateRecordData
+} from '../'
+import {decryptRecordData, errorResponse, fakeServer, recordResponse} from './fixtures'
+
+const record: KeeperRecord = {
+    recordUid: 'k9qMpcO0aszz9w3li5XbaQ',
+    revision: 1,
+    data: {
+        title: 'Database',
+        type: 'databaseCredentials',
+        fields: [
+            {type: 'text', label: 'type', value: ['postgresql']},
+            {type: 'host', value: [{hostName: 'db.example.com', port: '5432'}]},
+            {type: 'login', value: ['admin']},
+            {type: 'password', value: ['Pa$$w0rd']}
+        ],
+        custom: [
+            {type: 'text', label: 'Environment', value: ['production']},
+            {type: 'url', label: 'Console', value: ['https://console.example.com']}
+        ]
+    }
+}
+
+test('Reads typed fields', () => {
+    expect(getField(record, 'password')?.value?.[0]).toBe('Pa$$w0rd')
+    expect(getField(record, 'host')?.value?.[0].port).toBe('5432')
+    expect(getField(record.data, 'text', 'type')?.value).toEqual(['postgresql'])
+    expect(getField(record, 'text', 'other')).toBeUndefined()
+    expect(getField(record, 'password')?.complexity).toBeUndefined()
+    // @ts-expect-error - the field class follows the field type
+    expect(getField<PasswordField>(record, 'login')?.value).toEqual(['admin'])
+    expect(getCustomField(record, 'url')?.label).toBe('Console')
+    expect(getCustomFieldByLabel<TextField>(record, 'Environment')?.value).toEqual(['production'])
+    expect(getCustomFieldByLabel(record, 'Missing')).toBeUndefined()
+})
+
+test('Narrows the record data with type guards', () => {
+    const data = getTypedRecordData(record)
+    expect(isKnownRecordType(data)).toBe(true)
+    expect(isRecordOfType(data, 'login')).toBe(false)
+    if (!isRecordOfType(data, 'databaseCredentials')) {
+        throw new Error('Expected a databaseCredentials record')
+    }
+    expect(data.fields.map(x => x.type)).toEqual(recordTemplates.databaseCredentials.slice(0, 4).map(x => x.type))
+
+    const customType = {...record, data: {...record.data, type: 'myCustomType'}}
+    expect(isKnownRecordType(getTypedRecordData(customType))).toBe(false)
+    expect(getField(customType, 'password')?.value).toEqual(['Pa$$w0rd'])
+})
+
+test('Builds record data', () => {
+    const data = new RecordBuilder('login')
+        .title('My Login')
+        .login('user')
+        .password('Pa$$w0rd', undefined, {length: 32})
+        .url('https://example.com')
+        .custom(new TextField('production'))
+        .build()
+    expect(data).toEqual({
+        type: 'login',
+        title: 'My Login',
+        fields: [
+            {type: 'login', value: ['user']},
+            {type: 'password', value: ['Pa$$w0rd'], complexity: {length: 32}},
+            {type: 'url', value: ['https://example.com']}
+        ],
+        custom: [{type: 'text', value: ['production']}]
+    })
+    expect(validateRecordData(record.data)).toEqual([])
+})
+
+test('Reports all violations at once', () => {
+    const invalidPhone: KeeperRecordField = {type: 'phone', value: [{number: 5551234}]}
+    const invalidHost: KeeperRecordField = {type: 'host', value: [{hostName: 'example.com', port: 'ssh'}]}
+    const builder = new RecordBuilder('serverCredentials')
+        .login('admin')
+        .field(invalidPhone)
+        .custom(invalidHost)
+    expect(() => builder.build()).toThrow(KeeperValidationError)
+    expect(() => builder.build()).toThrow(expect.objectContaining({
+        violations: [
+            {path: 'title', message: 'is required'},
+            {path: 'custom[0].value[0]', message: 'port must be a number from 0 to 65535'},
+            {path: 'fields[1].value[0].number', message: 'must be a string'},
+            {path: 'fields[1]', message: 'phone is not a field of the serverCredentials record type, add it as a custom field'},
+            {path: 'fields', message: 'host is required'}
+        ]
+    }))
+
+    expect(validateRecordData({
+        type: 'myCustomType',
+        title: 'Custom',
+        fields: [
+            {type: 'myField', value: [{anything: true}]},
+            {type: 'paymentCard', value: [{cardNumber: '4111111111111111', cardExpirationDate: '13/2030'}]},
+            {type: 'pamSettings', value: [{connection: [{protocol: 'ssh', ignoreCert: 'yes'}]}]},
+            {type: 'text', required: true, value: []}
+        ]
+    })).toEqual([
+        {path: 'fields[1].value[0]', message: 'cardExpirationDate must be in the MM/YYYY format'},
+        {path: 'fields[2].value[0].connection[0].ignoreCert', message: 'must be a boolean'},
+        {path: 'fields[3].value', message: 'is required'}
+    ])
+})
+
+test('Reads and updates field values by type or label', () => {
+    const copy: KeeperRecord = JSON.parse(JSON.stringify(record))
+    upsertField(copy, {type: 'phone', value: [{number: '555-1234'}, {number: '555-5678', type: 'Work'}]})
+    expect(getFieldValue(copy, 'password')).toEqual(['Pa$$w0rd'])
+    expect(getFieldValue(copy, 'password[0]')).toBe('Pa$$w0rd')
+    expect(getFieldValue(copy, 'type[]')).toEqual(['postgresql'])
+    expect(getFieldValue(copy, 'host[0][port]')).toBe('5432')
+    expect(getFieldValue(copy, 'phone[]')).toHaveLength(2)
+    expect(getFieldValue(copy, 'phone[1][type]')).toBe('Work')
+    expect(getFieldValue(copy, 'phone[2]')).toBeUndefined()
+    expect(getFieldValue(copy, 'oneTimeCode')).toBeUndefined()
+    expect(getCustomFieldValue(copy, 'Environment')).toEqual(['production'])
+
+    setFieldValue(copy, 'password', ['N3w_Pa$$w0rd'])
+    setFieldValue(copy, 'host[0][port]', '5433')
+    setFieldValue(copy, 'phone[2]', {number: '555-0000'})
+    setCustomFieldValue(copy, 'Console[0]', 'https://console2.example.com')
+    expect(getField(copy, 'password')?.value).toEqual(['N3w_Pa$$w0rd'])
+    expect(getFieldValue(copy, 'host')).toEqual([{hostName: 'db.example.com', port: '5433'}])
+    expect(getFieldValue(copy, 'phone[]')).toHaveLength(3)
+    expect(getCustomFieldValue(copy, 'url[]')).toEqual(['https://console2.example.com'])
+    expect(getCustomFieldValue(copy, 'url')).toEqual(['https://console2.example.com'])
+    expect(() => setFieldValue(copy, 'login', 'root')).toThrow('it expects an array of values')
+    expect(() => setFieldValue(copy, 'phone[4]', {number: '555-0000'})).toThrow('out of bounds')
+    expect(() => setFieldValue(copy, 'oneTimeCode', 'otpauth://')).toThrow('use upsertField')
+
+    expect(removeField(copy, 'phone[0]')).toBe(true)
+    expect(getFieldValue(copy, 'phone[0][number]')).toBe('555-5678')
+    expect(removeField(copy, 'Console')).toBe(true)
+    expect(removeField(copy, 'Console')).toBe(false)
+    expect(copy.data.custom).toHaveLength(1)
+})
+
+test('Reads a property of all the values like the notation', async () => {
+    const names = {title: 'People', type: 'contact', fields: [{type: 'name', value: [{first: 'Jenny', last: 'Doe'}, {first: 'John'}, {first: 'Jack', last: 'Smith'}]}]}
+    const recordKey = platform.getRandomBytes(32)
+    const {options, appKey} = await fakeServer(async () => ({records: [await recordResponse(record.recordUid, names, 1, recordKey, appKey)]}))
+    expect(getFieldValue(names, 'name[][last]')).toEqual(['Doe', 'Smith'])
+    expect(getFieldValue(names, 'name[][last]')).toEqual(await getNotationResults(options, `keeper://${record.recordUid}/field/name[][last]`))
+    expect(getFieldValue(names, 'name[1][last]')).toBeUndefined()
+    expect(() => setFieldValue(names, 'name[][last]', 'Roe')).toThrow(KeeperNotationError)
+    expect(() => setFieldValue(names, 'name[][last]', 'Roe')).toThrow(`a property is set on a single value, ex. 'name[0][last]'`)
+    setFieldValue(names, 'name[1][last]', 'Roe')
+    expect(getFieldValue(names, 'name[][last]')).toEqual(['Doe', 'Roe', 'Smith'])
+})
+
+test('Refuses ambiguous field keys', () => {
+    const copy: KeeperRecord = JSON.parse(JSON.stringify(record))
+    upsertField(copy, new TextField('us-east-1'), true)
+    upsertField(copy, Object.assign(new TextField('staging'), {label: 'Environment'}), true)
+    expect(copy.data.custom).toHaveLength(3)
+    expect(getCustomFieldValue(copy, 'Environment')).toEqual(['staging'])
+    expect(() => getCustomFieldValue(copy, 'text')).toThrow(KeeperNotationError)
+    expect(() => setCustomFieldValue(copy, 'text', 'eu-west-1'))
+        .toThrow(`Field 'text' is ambiguous in the record ${record.recordUid}, it matches text (Environment), text`)
+    expect(() => getFieldValue(copy, 'host[first]')).toThrow('first index must be numeric')
+
+    upsertField(copy, new PasswordField('Upserted'))
+    expect(getFieldValue(copy, 'password')).toEqual(['Upserted'])
+    expect(copy.data.fields).toHaveLength(4)
+})
+
+test('Lists the changes between records', () => {
+    const changed: KeeperRecord = JSON.parse(JSON.stringify(record))
+    changed.data.notes = 'Rotated monthly'
+    setFieldValue(changed, 'password', ['N3w_Pa$$w0rd'])
+    removeField(changed, 'Console')
+    upsertField(changed, new TextField('us-east-1'), true)
+    expect(diffRecords(record, JSON.parse(JSON.stringify(record)))).toEqual([])
+    expect(diffRecords(record, changed).map(x => [x.kind, x.property, x.fieldType, x.label])).toEqual([
+        ['added', 'notes', undefined, undefined],
+        ['changed', 'fields', 'password', undefined],
+        ['removed', 'custom', 'url', 'Console'],
+        ['added', 'custom', 'text', undefined]
+    ])
+    expect(diffRecords(record, changed)[1].newValue.value).toEqual(['N3w_Pa$$w0rd'])
+})
+
+test('Applies the changes again after a revision conflict', async () => {
+    const recordKey = platform.getRandomBytes(32)
+    const server = {revision: 1, data: JSON.parse(JSON.stringify(record.data)), updates: 0}
+    const {options, appKey} = await fakeServer(async (route, request) => {
+        if (route === 'get_secret') {
+            return {records: [await recordResponse(record.recordUid, server.data, server.revision, recordKey, appKey)]}
+        }
+        if (route === 'update_secret') {
+            server.updates++
+            if (server.updates === 1) {
+                // someone else saves the record first
+                setCustomFieldValue(server.data, 'Environment', ['staging'])
+                server.revision++
+            }
+            if (request.revision !== server.revision) {
+                return errorResponse(409, {result_code: 'out_of_sync', message: 'Record revision mismatch'})
+            }
+            server.data = await decryptRecordData(request.data, recordKey)
+            server.revision++
+        }
+        return {}
+    })
+
+    let calls = 0
+    const changes = await updateSecretIfUnchanged(options, record.recordUid, updated => {
+        calls++
+        setFieldValue(updated, 'password', ['N3w_Pa$$w0rd'])
+    })
+    expect(calls).toBe(2)
+    expect(changes.map(x => [x.kind, x.fieldType])).toEqual([['changed', 'password']])
+    expect(server.revision).toBe(3)
+    expect(getFieldValue(server.data, 'password')).toEqual(['N3w_Pa$$w0rd'])
+    expect(getCustomFieldValue(server.data, 'Environment')).toEqual(['staging'])
+
+    expect(await updateSecretIfUnchanged(options, record.recordUid, () => undefined)).toEqual([])
+    server.updates = 0
+    await expect(updateSecretIfUnchanged(options, record.recordUid, updated => {
+        setFieldValue(updated, 'login', ['root'])
+    }, 0)).rejects.toBeInstanceOf(KeeperConflictError)
+})
+
+// fake Secrets Manager API serving the record, rollback_secret_update restores the data saved before the rotation
+const prepareRotationServer = async () => {
+    const recordKey = platform.getRandomBytes(32)
+    const server = {revision: 1, data: JSON.parse(JSON.stringify(record.data)), routes: [] as string[], previousData: undefined as RecordData | undefined}
+    const {options, appKey} = await fakeServer(async (route, request) => {
+        server.routes.push(route)
+        if (route === 'get_secret') {
+            return {records: [await recordResponse(record.recordUid, server.data, server.revision, recordKey, appKey)]}
+        }
+        if (route === 'update_secret') {
+            if (request.revision !== server.revision) {
+                return errorResponse(409, {result_code: 'out_of_sync', message: 'Record revision mismatch'})
+            }
+            if (request.transactionType === 'rotation') {
+                server.previousData = server.data
+            }
+            server.data = await decryptRecordData(request.data, recordKey)
+            server.revision++
+        } else if (route === 'rollback_secret_update') {
+            server.data = server.previousData
+            server.revision++
+        }
+        return {}
+    })
+    return {options, server}
+}
+
+test('Rotates a password as a transaction', async () => {
+    const {options, server} = await prepareRotationServer()
+    server.data.fields[3].complexity = {length: 20, caps: 0, lowercase: 0, digits: 5, special: 0}
+    const current = (await getSecrets2(options)).records[0]
+    server.routes = []
+
+    const hooks: string[] = []
+    let applied = ''
+    const rotated = await rotateSecret(options, current, {
+        apply: password => {
+            applied = password
+        },
+        onStaged: () => {
+            hooks.push('staged')
+        },
+        onFinalized: () => {
+            hooks.push('finalized')
+        }
+    })
+    expect(rotated).toMatchObject({status: 'rotated', stage: 'finalize', recordUid: record.recordUid})
+    expect(applied).toHaveLength(20)
+    expect(applied.replace(/\D/g, '').length).toBeGreaterThanOrEqual(5)
+    expect(getFieldValue(server.data, 'password[0]')).toBe(applied)
+    expect(hooks).toEqual(['staged', 'finalized'])
+    expect(server.routes).toEqual(['update_secret', 'finalize_secret_update'])
+
+    const failure = new Error('Unable to connect to the database')
+    const staged = (await getSecrets2(options)).records[0]
+    server.routes = []
+    const rolledBack = await rotateSecret(options, staged, {
+        generate: () => 'Generated_Pa$$w0rd',
+        apply: () => Promise.reject(failure),
+        onRolledBack: (_, error) => {
+            hooks.push(`rolled back: ${(error as Error).message}`)
+        }
+    })
+    expect(rolledBack).toMatchObject({status: 'rolledBack', stage: 'rollback', error: failure})
+    expect(getFieldValue(rolledBack.record!, 'password[0]')).toBe('Generated_Pa$$w0rd')
+    expect(getFieldValue(server.data, 'password[0]')).toBe(applied)
+    expect(hooks[2]).toBe('rolled back: Unable to connect to the database')
+    expect(server.routes).toEqual(['update_secret', 'rollback_secret_update'])
+
+    const stale = await rotateSecret(options, current, {apply: () => undefined})
+    expect(stale).toMatchObject({status: 'failed', stage: 'stage'})
+    expect(stale.error).toBeInstanceOf(KeeperConflictError)
+
+    // the complexity of the field selected with an index
+    const indexed = await rotateSecret(options, (await getSecrets2(options)).records[0], {fieldKey: 'password[0]', apply: () => undefined})
+    expect(indexed.status).toBe('rotated')
+    expect(getFieldValue(server.data, 'password[0]')).toHaveLength(20)
+})
@@ -0,0 +1,132 @@
+import {
+    completeTransaction,
+    getFolders,
+    KeeperAbortError,
+    KeeperHttpResponse,
+    platform,
+    SecretManagerOptions,
+    silentLogger,
+    TransmissionKey
+} from '../'
+import {encryptedResponse, errorResponse, prepareStorage} from './fixtures'
+
+const okResponse: KeeperHttpResponse = {
+    statusCode: 200,
+    headers: {},
+    data: new Uint8Array()
+}
+
+test('Retries retryable status codes', async () => {
+    const responses: ((transmissionKey: TransmissionKey) => Promise<KeeperHttpResponse>)[] = [
+        async () => errorResponse(503, {error: 'unavailable'}, {'retry-after': '0'}),
+        async () => errorResponse(403, {error: 'throttled'}),
+        transmissionKey => encryptedResponse({}, transmissionKey)
+    ]
+    let calls = 0
+    const debug = jest.fn()
+    const options: SecretManagerOptions = {
+        storage: await prepareStorage(),
+        queryFunction: (url, transmissionKey) => responses[calls++](transmissionKey),
+        retryPolicy: {maxAttempts: 3, initialDelay: 1},
+        logger: {...silentLogger, debug}
+    }
+    expect(await getFolders(options)).toEqual([])
+    expect(calls).toBe(3)
+    expect(debug).toHaveBeenCalledTimes(2)
+    expect(debug.mock.calls[0][1]).toMatchObject({route: 'get_folders', attempt: 1, statusCode: 503})
+})
+
+test('Retries the changes only when throttled', async () => {
+    const responses = [
+        errorResponse(429, {error: 'throttled'}, {'retry-after': '0'}),
+        okResponse,
+        errorResponse(502, {error: 'bad gateway'})
+    ]
+    let calls = 0
+    const options: SecretManagerOptions = {
+        storage: await prepareStorage(),
+        queryFunction: () => Promise.resolve(responses[calls++]),
+        retryPolicy: {maxAttempts: 3, initialDelay: 1},
+        logger: silentLogger
+    }
+    await completeTransaction(options, 'RECORD_UID')
+    expect(calls).toBe(2)
+
+    // the gateway may have timed out after the change was applied
+    await expect(completeTransaction(options, 'RECORD_UID')).rejects.toThrow('bad gateway')
+    expect(calls).toBe(3)
+})
+
+test('Retries network errors of the reads and passes the timeout', async () => {
+    const routes: string[] = []
+    const timeouts: (number | undefined)[] = []
+    const options: SecretManagerOptions = {
+        storage: await prepareStorage(),
+        queryFunction: async (url, transmissionKey, payload, allowUnverifiedCertificate, timeout) => {
+            routes.push(url.split('/').pop()!)
+            timeouts.push(timeout)
+            if (routes.length % 2 == 1) {
+                throw Object.assign(new Error('socket hang up'), {code: 'ECONNRESET'})
+            }
+            return {...okResponse, data: await platform.encryptWithKey(platform.stringToBytes('{}'), transmissionKey.key)}
+        },
+        retryPolicy: {maxAttempts: 2, initialDelay: 1, timeout: 5000}
+    }
+    expect(await getFolders(options)).toEqual([])
+    expect(routes).toEqual(['get_folders', 'get_folders'])
+    expect(timeouts).toEqual([5000, 5000])
+
+    // the change may have been applied before the connection was reset
+    await expect(completeTransaction(options, 'RECORD_UID')).rejects.toThrow('socket hang up')
+    expect(routes).toEqual(['get_folders', 'get_folders', 'finalize_secret_update'])
+})
+
+test('Does not retry by default', async () => {
+    let calls = 0
+    const options: SecretManagerOptions = {
+        storage: await prepareStorage(),
+        queryFunction: () => {
+            calls++
+            return Promise.resolve(errorResponse(500, {error: 'internal'}))
+        }
+    }
+    await expect(completeTransaction(options, 'RECORD_UID')).rejects.toThrow('internal')
+    expect(calls).toBe(1)
+})
+
+test('Caps server public key rotation', async () => {
+    let calls = 0
+    const options: SecretManagerOptions = {
+        storage: await prepareStorage(),
+        queryFunction: () => {
+            calls++
+            return Promise.resolve(errorResponse(403, {error: 'key', key_id: 8}))
+        },
+        retryPolicy: {maxKeyRotations: 2}
+    }
+    await expect(completeTransaction(options, 'RECORD_UID')).rejects.toThrow('too many public key changes')
+    expect(calls).toBe(3)
+})
+
+test('Aborts before sending and during backoff', async () => {
+    let calls = 0
+    const controller = new AbortController()
+    controller.abort()
+    const options: SecretManagerOptions = {
+        storage: await prepareStorage(),
+        queryFunction: () => {
+            calls++
+            return Promise.resolve(errorResponse(429, {error: 'throttled'}))
+        },
+        retryPolicy: {maxAttempts: 5, initialDelay: 60000, jitter: false},
+        signal: controller.signal
+    }
+    await expect(completeTransaction(options, 'RECORD_UID')).rejects.toBeInstanceOf(KeeperAbortError)
+    expect(calls).toBe(0)
+
+    const pending = new AbortController()
+    const result = completeTransaction({...options, signal: pending.signal}, 'RECORD_UID')
+    setTimeout(() => pending.abort(), 50)
+    await expect(result).rejects.toBeInstanceOf(KeeperAbortError)
+    expect(calls).toBe(1)
+})
@@ -0,0 +1,121 @@
+import {
+    createKeyCache,
+    getSecrets,
+    getSecrets2,
+    KeeperPartialResultError,
+    platform,
+    SecretManagerOptions,
+    SecretsManager,
+    silentLogger,
+    TransmissionKey
+} from '../'
+import {encryptedResponse, fakeServer, recordResponse} from './fixtures'
+
+const brokenResponse = {
+    records: [
+        {recordUid: 'BROKEN_RECORD_UID', recordKey: 'AAAA', data: 'AAAA', revision: 1}
+    ],
+    folders: [
+        {folderUid: 'BROKEN_FOLDER_UID', folderKey: 'AAAA', records: []}
+    ]
+}
+
+const prepareOptions = async (): Promise<SecretManagerOptions> => (await fakeServer(() => brokenResponse)).options
+
+test('Reports skipped records and folders', async () => {
+    const secrets = await getSecrets2(await prepareOptions())
+    expect(secrets.records).toHaveLength(0)
+    expect(secrets.errors).toHaveLength(2)
+    expect(secrets.errors![0]).toMatchObject({uid: 'BROKEN_RECORD_UID', kind: 'record'})
+    expect(secrets.errors![1]).toMatchObject({uid: 'BROKEN_FOLDER_UID', kind: 'folder'})
+})
+
+test('Throws on skipped items in strict mode', async () => {
+    const options = await prepareOptions()
+    const error = await getSecrets2(options, {strict: true}).catch(e => e)
+    expect(error).toBeInstanceOf(KeeperPartialResultError)
+    expect((error as KeeperPartialResultError).errors.map(x => x.uid)).toEqual(['BROKEN_RECORD_UID', 'BROKEN_FOLDER_UID'])
+})
+
+test('SecretsManager client uses its own options', async () => {
+    const options = await prepareOptions()
+    const client = new SecretsManager(options.storage, {queryFunction: options.queryFunction, logger: silentLogger})
+    const secrets = await client.getSecrets()
+    expect(secrets.errors).toHaveLength(2)
+    await expect(client.getSecrets({strict: true})).rejects.toBeInstanceOf(KeeperPartialResultError)
+})
+
+test('SecretsManager clients do not share keys', async () => {
+    const first = new SecretsManager((await prepareOptions()).storage, {logger: silentLogger})
+    const second = new SecretsManager((await prepareOptions()).storage, {logger: silentLogger})
+    await platform.importKey('KEY_ID', platform.getRandomBytes(32), undefined, first.options.keyCache)
+    expect(platform.hasKeysCached(first.options.keyCache)).toBe(true)
+    expect(platform.hasKeysCached(second.options.keyCache)).toBe(false)
+    platform.cleanKeyCache(first.options.keyCache)
+    expect(platform.hasKeysCached(first.options.keyCache)).toBe(false)
+})
+
+test('Key cache zero-fills removed keys', async () => {
+    const keyCache = createKeyCache()
+    const key = platform.getRandomBytes(32)
+    await platform.importKey('KEY_ID', key, undefined, keyCache)
+    await platform.importKey('APP_KEY', key, undefined, keyCache)
+    const cachedKey: Uint8Array = keyCache.get('KEY_ID')
+    expect(cachedKey).toEqual(key)
+    platform.cleanKeyCache(keyCache, ['APP_KEY'])
+    expect(cachedKey.every(x => x === 0)).toBe(true)
+    expect(key.some(x => x !== 0)).toBe(true)
+    expect(keyCache.get('KEY_ID')).toBeUndefined()
+    expect(keyCache.get('APP_KEY')).toEqual(key)
+})
+
+test('Key cache expires keys after max age', async () => {
+    const keyCache = createKeyCache(20)
+    await platform.importKey('KEY_ID', platform.getRandomBytes(32), undefined, keyCache)
+    expect(platform.hasKeysCached(keyCache)).toBe(true)
+    await new Promise(resolve => setTimeout(resolve, 30))
+    expect(platform.hasKeysCached(keyCache)).toBe(false)
+})
+
+test('Wipes item keys after fetch', async () => {
+    const options = await prepareOptions()
+    const keyCache = createKeyCache()
+    const appKey = await options.storage.getBytes('appKey')
+    const folderKey = await platform.encrypt(platform.getRandomBytes(32), 'appKey', options.storage, undefined, keyCache)
+    const folderResponse = {folders: [{folderUid: 'FOLDER_UID', folderKey: platform.bytesToBase64(folderKey), records: []}]}
+    const secrets = await getSecrets2({
+        ...options,
+        keyCache,
+        wipeKeysAfterFetch: true,
+        queryFunction: async (url: string, transmissionKey: TransmissionKey) => encryptedResponse(folderResponse, transmissionKey)
+    })
+    expect(secrets.errors).toBeUndefined()
+    expect(keyCache.get('FOLDER_UID')).toBeUndefined()
+    expect(keyCache.get('appKey')).toEqual(appKey)
+})
+
+test('Wipes only the keys of the call', async () => {
+    const records = Array.from({length: 5}, (x, i) => ({recordUid: `RECORD_UID_${i}`, recordKey: platform.getRandomBytes(32)}))
+    const {options, appKey} = await fakeServer(async () => ({
+        records: await Promise.all(records.map(x => recordResponse(x.recordUid, {title: x.recordUid, type: 'login', fields: []}, 1, x.recordKey, appKey)))
+    }))
+    // the decryption lets the other calls run, as the asynchronous browser crypto does
+    const decrypt = platform.decrypt
+    jest.spyOn(platform, 'decrypt').mockImplementation(async (...args) => {
+        await new Promise(resolve => setTimeout(resolve, 1))
+        return decrypt(...args)
+    })
+    const unwrap = jest.spyOn(platform, 'unwrap')
+    const keyCache = createKeyCache()
+    const wiping = {...options, keyCache, wipeKeysAfterFetch: true}
+    const [first, second, shared] = await Promise.all([getSecrets(wiping), getSecrets(wiping), getSecrets({...options, keyCache})])
+    expect([first.errors, second.errors, shared.errors]).toEqual([undefined, undefined, undefined])
+    expect([first.records, second.records, shared.records].map(x => x.length)).toEqual([5, 5, 5])
+    expect(keyCache.get('RECORD_UID_0')).toBeDefined()
+
+    // the keys of the wiping calls were unwrapped into caches of their own
+    const callCaches = unwrap.mock.calls.map(x => x[6]).filter(x => x && x !== keyCache)
+    expect(new Set(callCaches).size).toBe(2)
+    expect(callCaches.every(x => x!.isEmpty())).toBe(true)
+    jest.restoreAllMocks()
+})
@@ -0,0 +1,331 @@
+import {
+    encryptedFileStorage,
+    defaultKeyring,
+    envConfigStorage,
+    fileKeyring,
+    initializeStorage,
+    KeeperCryptoError,
+    KeeperStorageError,
+    keychainStorage,
+    KeyringBackend,
+    localConfigStorage,
+    platform,
+    secretServiceKeyring,
+    setLogger,
+    silentLogger
+} from '../'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+let directory: string
+let configName: string
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ksm-'))
+    configName = path.join(directory, 'config.json')
+})
+
+afterEach(() => {
+    fs.rmSync(directory, {recursive: true})
+    jest.restoreAllMocks()
+    setLogger()
+})
+
+test('Writes the config atomically and readable by the owner only', async () => {
+    const renameSync = jest.spyOn(fs, 'renameSync')
+    await initializeStorage(localConfigStorage(configName), 'US:ONE_TIME_TOKEN')
+    expect(renameSync).toHaveBeenCalledTimes(1)
+    expect(fs.readdirSync(directory)).toEqual(['config.json'])
+    expect(fs.statSync(configName).mode & 0o777).toBe(0o600)
+    const config = JSON.parse(fs.readFileSync(configName).toString())
+    expect(Object.keys(config).sort()).toEqual(['clientId', 'clientKey', 'hostname', 'privateKey'])
+
+    // temporary file of a crashed writer
+    fs.writeFileSync(`${configName}.${process.pid}.tmp`, '{}', {mode: 0o644})
+    await localConfigStorage(configName).saveString('hostname', 'keepersecurity.eu')
+    expect(fs.readdirSync(directory)).toEqual(['config.json'])
+    expect(fs.statSync(configName).mode & 0o777).toBe(0o600)
+})
+
+test('Keeps the changes made by another process', async () => {
+    const first = localConfigStorage(configName)
+    const second = localConfigStorage(configName)
+    await first.saveString('hostname', 'keepersecurity.com')
+    await second.saveString('clientId', 'CLIENT_ID')
+    await first.delete('appKey')
+    expect(JSON.parse(fs.readFileSync(configName).toString())).toEqual({hostname: 'keepersecurity.com', clientId: 'CLIENT_ID'})
+})
+
+test('Never overwrites a config file it can not parse', async () => {
+    fs.writeFileSync(configName, '{"privateKey": "PRIVATE_KEY", "appKey": "APP', {mode: 0o600})
+    const storage = localConfigStorage(configName)
+    await expect(storage.getString('hostname')).rejects.toBeInstanceOf(KeeperStorageError)
+    await expect(storage.saveString('hostname', 'keepersecurity.com')).rejects.toThrow(`Unable to parse the configuration file ${configName}`)
+    await expect(storage.batch!(() => storage.delete('clientId'))).rejects.toBeInstanceOf(KeeperStorageError)
+    expect(fs.readFileSync(configName).toString()).toBe('{"privateKey": "PRIVATE_KEY", "appKey": "APP')
+    expect(fs.readdirSync(directory)).toEqual(['config.json'])
+})
+
+test('Writes nothing when a batch fails', async () => {
+    const storage = localConfigStorage(configName)
+    await storage.saveString('hostname', 'keepersecurity.com')
+    await expect(storage.batch!(async () => {
+        await storage.saveString('clientId', 'CLIENT_ID')
+        await storage.batch!(async () => {
+            await storage.saveString('appKey', 'APP_KEY')
+            await storage.batch!(async () => {
+                await storage.delete('hostname')
+                throw new Error('Unable to encode the private key')
+            }).catch(() => undefined)
+            expect(await storage.getString('hostname')).toBe('keepersecurity.com')
+        })
+        throw new Error('Unable to bind the client')
+    })).rejects.toThrow('Unable to bind the client')
+    expect(JSON.parse(fs.readFileSync(configName).toString())).toEqual({hostname: 'keepersecurity.com'})
+    expect(await storage.getString('clientId')).toBeUndefined()
+})
+
+test('Waits for the lock and warns about world-readable files', async () => {
+    fs.writeFileSync(configName, '{}', {mode: 0o644})
+    fs.chmodSync(configName, 0o644)
+    const warn = jest.fn()
+    setLogger({...silentLogger, warn})
+    const storage = localConfigStorage(configName)
+    expect(warn).toHaveBeenCalledTimes(1)
+
+    fs.writeFileSync(`${configName}.lock`, '')
+    const saved = storage.saveString('hostname', 'keepersecurity.com')
+    await new Promise(resolve => setTimeout(resolve, 100))
+    expect(JSON.parse(fs.readFileSync(configName).toString())).toEqual({})
+    fs.unlinkSync(`${configName}.lock`)
+    await saved
+    expect(JSON.parse(fs.readFileSync(configName).toString())).toEqual({hostname: 'keepersecurity.com'})
+    expect(fs.statSync(configName).mode & 0o777).toBe(0o600)
+})
+
+test('Encrypts the config with a passphrase', async () => {
+    const storage = encryptedFileStorage(configName, () => 'passphrase', 1000)
+    await initializeStorage(storage, 'US:ONE_TIME_TOKEN')
+    const content = fs.readFileSync(configName).toString()
+    expect(JSON.parse(content)).toMatchObject({kdf: 'PBKDF2-SHA256', iterations: 1000})
+    expect(content).not.toContain('privateKey')
+    expect(fs.statSync(configName).mode & 0o777).toBe(0o600)
+
+    const privateKey = await storage.getBytes('privateKey')
+    expect(await encryptedFileStorage(configName, () => 'passphrase').getBytes('privateKey')).toEqual(privateKey)
+    await expect(encryptedFileStorage(configName, () => 'wrong').getString('clientId')).rejects.toBeInstanceOf(KeeperCryptoError)
+
+    await storage.changePassphrase(async () => 'new passphrase')
+    await expect(encryptedFileStorage(configName, () => 'passphrase').getString('clientId')).rejects.toBeInstanceOf(KeeperCryptoError)
+    expect(await encryptedFileStorage(configName, () => 'new passphrase').getBytes('privateKey')).toEqual(privateKey)
+
+    // custom platforms may not implement the key derivation
+    const deriveKey = platform.deriveKey
+    delete platform.deriveKey
+    try {
+        await expect(encryptedFileStorage(configName, () => 'new passphrase').getString('clientId')).rejects.toBeInstanceOf(KeeperCryptoError)
+    } finally {
+        platform.deriveKey = deriveKey
+    }
+})
+
+test('Asks for the passphrase before locking the config', async () => {
+    const locked: boolean[] = []
+    const provider = (passphrase: string) => () => {
+        locked.push(fs.existsSync(`${configName}.lock`))
+        return passphrase
+    }
+    const storage = encryptedFileStorage(configName, provider('passphrase'), 1000)
+    await storage.saveString('hostname', 'keepersecurity.com')
+    await encryptedFileStorage(configName, provider('passphrase'), 1000).saveString('clientId', 'CLIENT_ID')
+    await storage.changePassphrase(provider('new passphrase'))
+    expect(locked).toEqual([false, false, false])
+    expect(await encryptedFileStorage(configName, () => 'new passphrase').getString('clientId')).toBe('CLIENT_ID')
+})
+
+test('Imports a plain config into an encrypted file', async () => {
+    const plainConfig = {hostname: 'keepersecurity.com', clientId: 'CLIENT_ID', appKey: platform.bytesToBase64(platform.getRandomBytes(32))}
+    const storage = encryptedFileStorage(configName, () => 'passphrase', 1000)
+    await storage.importConfig(platform.bytesToBase64(platform.stringToBytes(JSON.stringify(plainConfig))))
+    const reopened = encryptedFileStorage(configName, () => 'passphrase')
+    expect(await reopened.getString('hostname')).toBe('keepersecurity.com')
+    expect(await reopened.getString('appKey')).toBe(plainConfig.appKey)
+
+    fs.writeFileSync(path.join(directory, 'plain.json'), JSON.stringify(plainConfig), {mode: 0o600})
+    await expect(encryptedFileStorage(path.join(directory, 'plain.json'), () => 'passphrase').getString('hostname'))
+        .rejects.toThrow('not an encrypted configuration file')
+})
+
+test('Reads the config from the environment', async () => {
+    const config = {hostname: 'keepersecurity.com', clientId: 'CLIENT_ID', privateKey: 'PRIVATE_KEY', appKey: 'APP_KEY'}
+    const blob = platform.bytesToBase64(platform.stringToBytes(JSON.stringify(config)))
+    expect(await envConfigStorage({env: {KSM_CONFIG: blob}}).getString('clientId')).toBe('CLIENT_ID')
+    expect(await envConfigStorage({variable: 'MY_CONFIG', env: {MY_CONFIG: JSON.stringify(config)}}).getString('appKey')).toBe('APP_KEY')
+    expect(await envConfigStorage({env: {KSM_HOSTNAME: 'keepersecurity.eu', KSM_CLIENT_ID: 'ID', KSM_PRIVATE_KEY: 'KEY', KSM_APP_KEY: 'APP'}}).getString('hostname')).toBe('keepersecurity.eu')
+
+    expect(() => envConfigStorage({env: {KSM_CONFIG: JSON.stringify({hostname: 'keepersecurity.com'})}}))
+        .toThrow('KSM_CONFIG configuration is missing clientId, privateKey, appKey')
+    expect(() => envConfigStorage({env: {KSM_HOSTNAME: 'keepersecurity.com', KSM_APP_KEY: 'APP'}}))
+        .toThrow('Missing environment variables: KSM_CLIENT_ID, KSM_PRIVATE_KEY')
+    expect(() => envConfigStorage({env: {}})).toThrow('Configuration is not found in the environment')
+})
+
+test('Persists environment config changes', async () => {
+    const env = {KSM_HOSTNAME: 'keepersecurity.com', KSM_CLIENT_ID: 'ID', KSM_PRIVATE_KEY: 'KEY', KSM_CLIENT_KEY: 'CLIENT_KEY'}
+    const persisted: any[] = []
+    const storage = envConfigStorage({env, persist: config => {
+        persisted.push(config)
+    }})
+    await storage.saveString('appKey', 'APP_KEY')
+    await storage.delete('clientKey')
+    expect(persisted[1]).toEqual({hostname: 'keepersecurity.com', clientId: 'ID', privateKey: 'KEY', appKey: 'APP_KEY'})
+
+    const fileStorage = envConfigStorage({env, persist: configName})
+    await fileStorage.saveString('appKey', 'APP_KEY')
+    await fileStorage.delete('clientKey')
+    expect(JSON.parse(fs.readFileSync(configName).toString())).toEqual(persisted[1])
+
+    // the next start reads the persisted file, the callback is write-only
+    const restarted = envConfigStorage({env, persist: configName})
+    expect(await restarted.getString('appKey')).toBe('APP_KEY')
+    expect(await restarted.getString('clientKey')).toBeUndefined()
+    expect(await envConfigStorage({env, persist: () => undefined}).getString('appKey')).toBeUndefined()
+    const otherClient = envConfigStorage({env: {...env, KSM_CLIENT_ID: 'OTHER_ID'}, persist: configName})
+    expect(await otherClient.getString('clientKey')).toBe('CLIENT_KEY')
+})
+
+const memoryKeyring = (secrets: Record<string, string>): KeyringBackend => ({
+    get: async (service, account) => secrets[`${service}|${account}`],
+    set: async (service, account, secret) => {
+        secrets[`${service}|${account}`] = secret
+    },
+    delete: async (service, account) => {
+        delete secrets[`${service}|${account}`]
+    }
+})
+
+test('Keeps the keys in the keyring and the other values in the config file', async () => {
+    const secrets: Record<string, string> = {}
+    const keyring = memoryKeyring(secrets)
+    const storage = keychainStorage(configName, keyring)
+    await initializeStorage(storage, 'US:ONE_TIME_TOKEN')
+    expect(Object.keys(JSON.parse(fs.readFileSync(configName).toString())).sort()).toEqual(['clientId', 'hostname'])
+    expect(Object.keys(secrets).sort()).toEqual([
+        `Keeper Secrets Manager|${configName}#clientKey`,
+        `Keeper Secrets Manager|${configName}#privateKey`
+    ])
+    expect(await keychainStorage(configName, keyring).getBytes('privateKey')).toEqual(await storage.getBytes('privateKey'))
+
+    await storage.delete('clientKey')
+    expect(await storage.getString('clientKey')).toBeUndefined()
+    expect(Object.keys(secrets).length).toBe(1)
+})
+
+test('Writes the keyring changes of a batch when it completes', async () => {
+    const secrets: Record<string, string> = {}
+    const storage = keychainStorage(configName, memoryKeyring(secrets))
+    await initializeStorage(storage, 'US:ONE_TIME_TOKEN')
+    const keyringSecrets = {...secrets}
+
+    await expect(storage.batch!(async () => {
+        await storage.saveString('appKey', 'APP_KEY')
+        await storage.delete('clientKey')
+        expect(await storage.getString('appKey')).toBe('APP_KEY')
+        expect(await storage.getString('clientKey')).toBeUndefined()
+        expect(secrets).toEqual(keyringSecrets)
+        throw new Error('Batch failed')
+    })).rejects.toThrow('Batch failed')
+    expect(secrets).toEqual(keyringSecrets)
+    expect(await storage.getString('appKey')).toBeUndefined()
+
+    await storage.batch!(async () => {
+        await storage.saveString('appKey', 'APP_KEY')
+        await expect(storage.batch!(async () => {
+            await storage.delete('clientKey')
+            throw new Error('Nested batch failed')
+        })).rejects.toThrow('Nested batch failed')
+        await storage.saveString('hostname', 'keepersecurity.eu')
+        expect(secrets).toEqual(keyringSecrets)
+    })
+    expect(secrets[`Keeper Secrets Manager|${configName}#appKey`]).toBe('APP_KEY')
+    expect(secrets[`Keeper Secrets Manager|${configName}#clientKey`]).toBe(keyringSecrets[`Keeper Secrets Manager|${configName}#clientKey`])
+    expect(await storage.getString('hostname')).toBe('keepersecurity.eu')
+})
+
+// secret-tool stand-in keeping the secrets in files next to it, fails to store while a locked file is there
+const secretToolStub = `#!/usr/bin/env node
+const fs = require('fs')
+const path = require('path')
+const [command, ...args] = process.argv.slice(2)
+const attributes = args.filter(x => !x.startsWith('--'))
+const fileName = path.join(__dirname, 'store', Buffer.from(attributes.join('|')).toString('hex'))
+if (command === 'lookup') {
+    if (!fs.existsSync(fileName)) {
+        process.exit(1)
+    }
+    process.stdout.write(fs.readFileSync(fileName))
+} else if (command === 'store') {
+    if (fs.existsSync(path.join(__dirname, 'locked'))) {
+        process.stderr.write('Cannot create an item in a locked collection\\n')
+        process.exit(1)
+    }
+    const input = []
+    process.stdin.on('data', data => input.push(data))
+    process.stdin.on('end', () => fs.writeFileSync(fileName, Buffer.concat(input)))
+} else if (command === 'clear') {
+    fs.rmSync(fileName, {force: true})
+}
+`
+
+test('Keeps the keys in the Secret Service with secret-tool', async () => {
+    const secretTool = path.join(directory, 'secret-tool')
+    fs.writeFileSync(secretTool, secretToolStub, {mode: 0o700})
+    fs.mkdirSync(path.join(directory, 'store'))
+    const keyring = secretServiceKeyring(secretTool)
+    expect(await keyring.get('service', 'account')).toBeUndefined()
+    await keyring.set('service', 'account', 'SECRET')
+    expect(await keyring.get('service', 'account')).toBe('SECRET')
+    await keyring.delete('service', 'account')
+    await keyring.delete('service', 'account')
+    expect(await keyring.get('service', 'account')).toBeUndefined()
+
+    const storage = keychainStorage(configName, keyring)
+    await initializeStorage(storage, 'US:ONE_TIME_TOKEN')
+    expect(JSON.parse(fs.readFileSync(configName).toString()).privateKey).toBeUndefined()
+    expect(await keychainStorage(configName, keyring).getBytes('privateKey')).toEqual(await storage.getBytes('privateKey'))
+
+    fs.writeFileSync(path.join(directory, 'locked'), '')
+    await expect(keyring.set('service', 'account', 'SECRET')).rejects.toThrow(KeeperStorageError)
+    await expect(keyring.set('service', 'account', 'SECRET'))
+        .rejects.toThrow('Unable to save account in the Secret Service: Cannot create an item in a locked collection')
+
+    const missing = secretServiceKeyring(path.join(directory, 'missing'))
+    await expect(missing.get('service', 'account')).rejects.toThrow(KeeperStorageError)
+    await expect(missing.get('service', 'account')).rejects.toThrow(/^Unable to run secret-tool/)
+})
+
+test('Requires a keyring backend without the Secret Service', () => {
+    const dbusAddress = process.env.DBUS_SESSION_BUS_ADDRESS
+    delete process.env.DBUS_SESSION_BUS_ADDRESS
+    try {
+        expect(() => defaultKeyring()).toThrow(KeeperStorageError)
+        expect(() => keychainStorage(configName)).toThrow(/^OS secret store is not available/)
+    } finally {
+        if (dbusAddress !== undefined) {
+            process.env.DBUS_SESSION_BUS_ADDRESS = dbusAddress
+        }
+    }
+})
+
+test('Moves the keys of an existing config to the file keyring', async () => {
+    await initializeStorage(localConfigStorage(configName), 'US:ONE_TIME_TOKEN')
+    const privateKey = await localConfigStorage(configName).getBytes('privateKey')
+    const keyringName = path.join(directory, 'keyring', 'keyring.json')
+    const storage = keychainStorage(configName, fileKeyring(keyringName))
+    expect(await storage.getBytes('privateKey')).toEqual(privateKey)
+    expect(await storage.getString('hostname')).toBe('keepersecurity.com')
+    expect(JSON.parse(fs.readFileSync(configName).toString()).privateKey).toBeUndefined()
+    expect(fs.statSync(keyringName).mode & 0o777).toBe(0o600)
+    expect(await keychainStorage(configName, fileKeyring(keyringName)).getBytes('privateKey')).toEqual(privateKey)
+})
@@ -0,0 +1,111 @@
+import {getLogger, jsonDocumentStorage, KeeperStorageError, KeyValueStorage, platform} from '@keeper-security/secrets-manager-core';
+import {SecretManagerServiceClient} from '@google-cloud/secret-manager';
+
+// The part of SecretManagerServiceClient used by the storage, a local fake can be passed instead
+export type GcpSecretManagerClient = Pick<SecretManagerServiceClient, 'accessSecretVersion' | 'addSecretVersion' | 'createSecret' | 'listSecretVersions' | 'destroySecretVersion'>
+
+export type GcpSecretManagerStorageOptions = {
+    projectId: string
+    secretId: string                    // secret holding the whole configuration as JSON, created on the first save
+    client?: GcpSecretManagerClient     // new SecretManagerServiceClient() by default
+    keepPreviousVersions?: boolean      // the versions replaced by a save are destroyed unless set, they hold the keys of the earlier configurations
+}
+
+// gRPC status codes
+const NOT_FOUND = 5
+const ALREADY_EXISTS = 6
+
+// the client rejects with the gRPC status code in the error
+const errorCode = (e: unknown): number | undefined => (e as { code?: number } | undefined)?.code
+const errorMessage = (e: unknown): string => e instanceof Error ? e.message : String(e)
+
+// the number at the end of the version name, ex. projects/ksm/secrets/config/versions/3
+const versionNumber = (name: string | null | undefined): number => Number((name || '').split('/').pop())
+
+// the storages of this process by secret name, the ones with an injected client are not shared
+const storages: Record<string, KeyValueStorage> = {}
+
+// The configuration is kept as a single secret version in the same JSON format as the local config file,
+// so every change adds one version and reads are served from the process wide cache.
+// The enabled versions older than the added one are destroyed then, unless keepPreviousVersions is set.
+// Changes made within batch() are written as one version.
+export const createGcpKeyValueStorage = (options: GcpSecretManagerStorageOptions): KeyValueStorage => {
+    const projectName = `projects/${options.projectId}`
+    const secretName = `${projectName}/secrets/${options.secretId}`
+    if (!options.client && storages[secretName]) {
+        return storages[secretName]
+    }
+    const client = options.client || new SecretManagerServiceClient()
+
+    const readConfig = async (): Promise<any> => {
+        try {
+            const [version] = await client.accessSecretVersion({name: `${secretName}/versions/latest`})
+            const data = version.payload?.data
+            if (!data) {
+                return {}
+            }
+            return JSON.parse(typeof data === 'string' ? data : platform.bytesToString(data))
+        } catch (e) {
+            if (errorCode(e) === NOT_FOUND) {
+                return {}
+            }
+            throw new KeeperStorageError(`Unable to read the configuration from ${secretName}: ${errorMessage(e)}`, {cause: e})
+        }
+    }
+
+    // a failure is logged only, the configuration is saved already and the next save retries it
+    const destroyPreviousVersions = async (version: string) => {
+        try {
+            const [versions] = await client.listSecretVersions({parent: secretName, filter: 'state:ENABLED'})
+            for (const previous of versions) {
+                // versions added by another process after this one are kept
+                if (versionNumber(previous.name) < versionNumber(version)) {
+                    await client.destroySecretVersion({name: previous.name})
+                }
+            }
+        } catch (e) {
+            getLogger().warn(`Unable to destroy the previous configuration versions of ${secretName}: ${errorMessage(e)}`, {secretName})
+        }
+    }
+
+    const writeConfig = async (config: any): Promise<void> => {
+        const request = {
+            parent: secretName,
+            payload: {data: platform.stringToBytes(JSON.stringify(config))}
+        }
+        let version: string | null | undefined
+        try {
+            try {
+                [{name: version}] = await client.addSecretVersion(request)
+            } catch (e) {
+                if (errorCode(e) !== NOT_FOUND) {
+                    throw e
+                }
+                try {
+                    await client.createSecret({
+                        parent: projectName,
+                        secretId: options.secretId,
+                        secret: {replication: {automatic: {}}}
+                    })
+                } catch (e) {
+                    // created by another process in the meantime
+                    if (errorCode(e) !== ALREADY_EXISTS) {
+                        throw e
+                    }
+                }
+                [{name: version}] = await client.addSecretVersion(request)
+            }
+        } catch (e) {
+            throw new KeeperStorageError(`Unable to save the configuration to ${secretName}: ${errorMessage(e)}`, {cause: e})
+        }
+        if (version && !options.keepPreviousVersions) {
+            await destroyPreviousVersions(version)
+        }
+    }
+
+    const storage = jsonDocumentStorage({read: readConfig, write: writeConfig})
+    if (!options.client) {
+        storages[secretName] = storage
+    }
+    return storage
+}
@@ -0,0 +1,147 @@
+import {KeeperStorageError, platform, setLogger, silentLogger} from '@keeper-security/secrets-manager-core'
+import {createGcpKeyValueStorage, GcpSecretManagerClient} from '../src'
+
+const secretName = 'projects/ksm-project/secrets/ksm-config'
+
+const grpcError = (code: number, message: string) => Object.assign(new Error(`${code} ${message}`), {code})
+
+// the client methods resolve with the response, the request and the raw response
+const reply = <T>(response: T): [T, undefined, undefined] => [response, undefined, undefined]
+
+// the list methods resolve with the items, the request of the next page and the raw response
+const page = <T>(items: T[]): [T[], null, {}] => [items, null, {}]
+
+// Secret Manager with the versions of each secret, the latest one last, a destroyed version is left empty
+const fakeClient = (secrets: Record<string, string[]> = {}) => {
+    const calls: string[] = []
+    const destroyed: string[] = []
+    const client: GcpSecretManagerClient & { failure?: Error, destroyFailure?: Error } = {
+        accessSecretVersion: async ({name}) => {
+            calls.push('accessSecretVersion')
+            if (client.failure) {
+                throw client.failure
+            }
+            const versions = secrets[name.replace(/\/versions\/latest$/, '')]
+            if (!versions) {
+                throw grpcError(5, `NOT_FOUND: Secret [${name}] not found or has no versions.`)
+            }
+            return reply({payload: {data: platform.stringToBytes(versions[versions.length - 1])}})
+        },
+        addSecretVersion: async ({parent, payload}) => {
+            calls.push('addSecretVersion')
+            if (!secrets[parent]) {
+                throw grpcError(5, `NOT_FOUND: Secret [${parent}] not found.`)
+            }
+            secrets[parent].push(platform.bytesToString(payload.data))
+            return reply({name: `${parent}/versions/${secrets[parent].length}`})
+        },
+        createSecret: async ({parent, secretId}) => {
+            calls.push('createSecret')
+            secrets[`${parent}/secrets/${secretId}`] = []
+            return reply({})
+        },
+        listSecretVersions: async ({parent}) => {
+            calls.push('listSecretVersions')
+            const names = secrets[parent].map((_, i) => `${parent}/versions/${i + 1}`)
+            return page(names.filter(name => !destroyed.includes(name)).map(name => ({name})))
+        },
+        destroySecretVersion: async ({name}) => {
+            calls.push('destroySecretVersion')
+            if (client.destroyFailure) {
+                throw client.destroyFailure
+            }
+            const [, parent, number] = name.match(/^(.+)\/versions\/(\d+)$/)!
+            secrets[parent][Number(number) - 1] = ''
+            destroyed.push(name)
+            return reply({name})
+        }
+    }
+    return {client, secrets, calls, destroyed}
+}
+
+const latest = (secrets: Record<string, string[]>) => JSON.parse(secrets[secretName][secrets[secretName].length - 1])
+
+test('Creates the secret on the first save and adds a version on the next ones', async () => {
+    const {client, secrets, calls} = fakeClient()
+    const storage = createGcpKeyValueStorage({projectId: 'ksm-project', secretId: 'ksm-config', client})
+    expect(await storage.getString('hostname')).toBeUndefined()
+
+    await storage.saveString('hostname', 'keepersecurity.com')
+    expect(calls).toEqual(['accessSecretVersion', 'accessSecretVersion', 'addSecretVersion', 'createSecret', 'addSecretVersion', 'listSecretVersions'])
+    await storage.saveBytes('appKey', new Uint8Array([1, 2, 3]))
+    expect(secrets[secretName]).toHaveLength(2)
+    expect(latest(secrets)).toEqual({hostname: 'keepersecurity.com', appKey: 'AQID'})
+    expect(calls.filter(x => x === 'createSecret')).toHaveLength(1)
+})
+
+test('Reads the configuration once and keeps the changes made elsewhere', async () => {
+    const {client, secrets, calls} = fakeClient({[secretName]: [JSON.stringify({hostname: 'keepersecurity.com', clientId: 'CLIENT_ID'})]})
+    const storage = createGcpKeyValueStorage({projectId: 'ksm-project', secretId: 'ksm-config', client})
+    expect(await storage.getString('hostname')).toBe('keepersecurity.com')
+    expect(await storage.getString('clientId')).toBe('CLIENT_ID')
+    expect(calls).toEqual(['accessSecretVersion'])
+
+    // another process adds a version in the meantime
+    secrets[secretName].push(JSON.stringify({hostname: 'keepersecurity.eu', clientId: 'CLIENT_ID'}))
+    await storage.delete('clientId')
+    expect(latest(secrets)).toEqual({hostname: 'keepersecurity.eu'})
+    expect(await storage.getString('hostname')).toBe('keepersecurity.eu')
+    expect(await storage.getString('clientId')).toBeUndefined()
+})
+
+test('Writes the changes made within batch as one version', async () => {
+    const {client, secrets} = fakeClient({[secretName]: [JSON.stringify({hostname: 'keepersecurity.com'})]})
+    const storage = createGcpKeyValueStorage({projectId: 'ksm-project', secretId: 'ksm-config', client})
+    await storage.batch!(async () => {
+        await storage.saveString('clientId', 'CLIENT_ID')
+        await storage.saveString('privateKey', 'PRIVATE_KEY')
+        await storage.delete('hostname')
+        expect(await storage.getString('clientId')).toBe('CLIENT_ID')
+        expect(secrets[secretName]).toHaveLength(1)
+    })
+    expect(secrets[secretName]).toHaveLength(2)
+    expect(latest(secrets)).toEqual({clientId: 'CLIENT_ID', privateKey: 'PRIVATE_KEY'})
+})
+
+test('Reports the errors other than NOT_FOUND', async () => {
+    const {client, secrets} = fakeClient()
+    client.failure = grpcError(7, 'PERMISSION_DENIED: Permission \'secretmanager.versions.access\' denied')
+    const storage = createGcpKeyValueStorage({projectId: 'ksm-project', secretId: 'ksm-config', client})
+    const error = await storage.getString('hostname').catch(e => e)
+    expect(error).toBeInstanceOf(KeeperStorageError)
+    expect(error.message).toBe(`Unable to read the configuration from ${secretName}: 7 PERMISSION_DENIED: Permission 'secretmanager.versions.access' denied`)
+    await expect(storage.saveString('hostname', 'keepersecurity.com')).rejects.toBeInstanceOf(KeeperStorageError)
+    expect(secrets).toEqual({})
+
+    client.failure = undefined
+    expect(await storage.getString('hostname')).toBeUndefined()
+})
+
+test('Destroys the versions replaced by a save', async () => {
+    const {client, secrets, destroyed} = fakeClient({[secretName]: [JSON.stringify({clientKey: 'ONE_TIME_TOKEN'})]})
+    const storage = createGcpKeyValueStorage({projectId: 'ksm-project', secretId: 'ksm-config', client})
+    await storage.delete('clientKey')
+    await storage.saveString('hostname', 'keepersecurity.com')
+    expect(destroyed).toEqual([`${secretName}/versions/1`, `${secretName}/versions/2`])
+    expect(secrets[secretName]).toEqual(['', '', JSON.stringify({hostname: 'keepersecurity.com'})])
+
+    // a failure leaves the saved configuration in place
+    client.destroyFailure = grpcError(7, 'PERMISSION_DENIED: Permission \'secretmanager.versions.destroy\' denied')
+    const warnings: string[] = []
+    setLogger({...silentLogger, warn: message => warnings.push(message)})
+    try {
+        await storage.saveString('clientId', 'CLIENT_ID')
+    } finally {
+        setLogger()
+    }
+    expect(warnings).toEqual([`Unable to destroy the previous configuration versions of ${secretName}: 7 PERMISSION_DENIED: Permission 'secretmanager.versions.destroy' denied`])
+    expect(latest(secrets)).toEqual({hostname: 'keepersecurity.com', clientId: 'CLIENT_ID'})
+})
+
+test('Keeps the previous versions when asked to', async () => {
+    const {client, secrets, calls} = fakeClient({[secretName]: [JSON.stringify({hostname: 'keepersecurity.com'})]})
+    const storage = createGcpKeyValueStorage({projectId: 'ksm-project', secretId: 'ksm-config', client, keepPreviousVersions: true})
+    await storage.saveString('clientId', 'CLIENT_ID')
+    expect(secrets[secretName]).toEqual([JSON.stringify({hostname: 'keepersecurity.com'}), JSON.stringify({hostname: 'keepersecurity.com', clientId: 'CLIENT_ID'})])
+    expect(calls).not.toContain('listSecretVersions')
+})